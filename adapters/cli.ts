@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from "../types/cli";
+
+// exits explicitly as the handler's providers may keep the process alive
+runCli(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1 @@
+export { RPCHandlerV6Provider } from "../types/ethers-v6-provider";
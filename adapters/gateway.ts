@@ -0,0 +1,2 @@
+export { RPCGateway } from "../types/gateway";
+export type { GatewaySettings } from "../types/gateway";
@@ -0,0 +1 @@
+export { rpcHandlerTransport } from "../types/viem-transport";
@@ -3,13 +3,15 @@ import path from "path";
 import * as fs from "fs";
 import { createDynamicTypes } from "./dynamic-types";
 
-const typescriptEntries = ["index.ts"];
+// viem and ethers v6 are optional peer dependencies and the gateway is Node only, so each adapter has its own entry point
+const typescriptEntries = ["index.ts", "adapters/viem.ts", "adapters/ethers-v6.ts", "adapters/gateway.ts"];
 export const entries = [...typescriptEntries];
 
 export const esBuildContext: esbuild.BuildOptions = {
   entryPoints: entries,
   bundle: true,
   outdir: "dist",
+  external: ["viem", "ethers"],
 };
 
 async function main() {
@@ -28,6 +30,7 @@ async function buildForEnvironments() {
   await esbuild
     .build({
       ...esBuildContext,
+      entryPoints: [...entries, "adapters/cli.ts"], // the rpc-racer bin
       tsconfig: "tsconfig.node.json",
       platform: "node",
       outdir: "dist/cjs",
@@ -40,11 +43,13 @@ async function buildForEnvironments() {
       console.error(err);
       process.exit(1);
     });
+  // browsers only, the "node" export condition sends Node to the cjs build since ethers uses the global WebSocket here
   esbuild
     .build({
       ...esBuildContext,
       tsconfig: "tsconfig.web.json",
       platform: "browser",
+      external: ["viem", "ethers", "fs/promises", "http"], // fs/promises and http are only imported by the Node only JsonFileStorageAdapter and gateway
       outdir: "dist/esm",
       format: "esm",
     })
@@ -7,6 +7,32 @@ import {
   NetworkCurrencies,
   NetworkExplorers,
   NetworkRPCs,
+  BatchRequest,
+  BatchResponse,
+  BatchSettings,
+  BroadcastSettings,
+  CircuitBreakerSettings,
+  CircuitState,
+  HealthMonitorSettings,
+  LatencyStatistic,
+  LatencyStats,
+  LatencyStatsSettings,
+  QuorumSettings,
+  RateLimitSettings,
+  RetryDelayFunction,
+  RetryPolicy,
+  RetryStrategy,
+  Rpc,
+  RpcAuth,
+  RpcCapabilities,
+  RpcFailureReason,
+  RpcFilter,
+  RpcMethodFamily,
+  RpcPattern,
+  RpcRequestOptions,
+  RpcRequirements,
+  StorageAdapter,
+  TokenBucketSettings,
   Token,
   ValidBlockData,
 } from "./types/handler";
@@ -30,9 +56,15 @@ import {
 } from "./types/constants";
 
 import { RPCHandler } from "./types/rpc-handler";
+import { RPCHandlerRegistry, RegistryConfig, NetworkConfig } from "./types/rpc-handler-registry";
 import { PrettyLogs } from "./types/logs";
-import { StorageService } from "./types/storage-service";
+import { HealthMonitor } from "./types/health-monitor";
+import { Eip1193Provider, Eip1193Event, Eip1193RequestArguments } from "./types/eip1193-provider";
+import { CachedRaceResults, StorageService } from "./types/storage-service";
+import { IndexedDbStorageAdapter, JsonFileStorageAdapter, LocalStorageAdapter, MemoryStorageAdapter } from "./types/storage-adapters";
 import { RPCService } from "./types/rpc-service";
+import { BatchNotSupportedError, DeadlineExceededError, JsonRpcRequestError, QuorumDisagreementError } from "./types/errors";
+import { ErrorClass, classifyError } from "./types/error-classifier";
 
 export { LOCAL_HOST, networkCurrencies, networkExplorers, networkIds, networkNames, networkRpcs, nftAddress, permit2Address };
 export { getNetworkId, getNetworkFaucets, getNetworkExplorer, getNetworkName, getNetworkRpcs, getNetworkCurrency, getNetworkData };
@@ -46,7 +78,41 @@ export type {
   NetworkCurrencies,
   NetworkExplorers,
   NetworkRPCs,
+  BatchRequest,
+  BatchResponse,
+  BatchSettings,
+  BroadcastSettings,
+  CircuitBreakerSettings,
+  CircuitState,
+  HealthMonitorSettings,
+  LatencyStatistic,
+  LatencyStats,
+  LatencyStatsSettings,
+  QuorumSettings,
+  RateLimitSettings,
+  RetryDelayFunction,
+  RetryPolicy,
+  RetryStrategy,
+  Rpc,
+  RpcAuth,
+  RpcCapabilities,
+  RpcFailureReason,
+  RpcFilter,
+  RpcMethodFamily,
+  RpcPattern,
+  RpcRequestOptions,
+  RpcRequirements,
+  StorageAdapter,
+  TokenBucketSettings,
   Token,
   ValidBlockData,
+  ErrorClass,
+  RegistryConfig,
+  NetworkConfig,
+  CachedRaceResults,
+  Eip1193Event,
+  Eip1193RequestArguments,
 };
-export { RPCHandler, PrettyLogs, StorageService, RPCService };
+export { RPCHandler, RPCHandlerRegistry, HealthMonitor, Eip1193Provider, PrettyLogs, StorageService, RPCService };
+export { LocalStorageAdapter, MemoryStorageAdapter, JsonFileStorageAdapter, IndexedDbStorageAdapter };
+export { BatchNotSupportedError, DeadlineExceededError, JsonRpcRequestError, QuorumDisagreementError, classifyError };
@@ -0,0 +1,82 @@
+import { createPublicClient } from "viem";
+import { RPCHandlerV6Provider } from "../adapters/ethers-v6";
+import { rpcHandlerTransport } from "../adapters/viem";
+import { Eip1193Provider } from "../types/eip1193-provider";
+import { RPCHandler } from "../types/rpc-handler";
+
+// an ethers v5 error wrapping the JSON-RPC error returned by the RPC
+const revertError = Object.assign(new Error("processing response error"), {
+  code: "SERVER_ERROR",
+  error: { code: 3, message: "execution reverted: not owner", data: "0x08c379a0" },
+});
+
+function mockHandler(send: (method: string, params: unknown[]) => Promise<unknown>) {
+  const handler = { send: jest.fn(send), getNetworkId: () => "100" } as unknown as RPCHandler & { send: jest.Mock };
+  const eip1193Provider = new Eip1193Provider(handler);
+  handler.getEip1193Provider = () => eip1193Provider;
+  return handler;
+}
+
+describe("Adapters", () => {
+  describe("viem transport", () => {
+    it("should send requests through the handler", async () => {
+      const handler = mockHandler(() => Promise.resolve("0x10"));
+      const client = createPublicClient({ transport: rpcHandlerTransport(handler) });
+
+      await expect(client.getBlockNumber()).resolves.toBe(BigInt(16));
+      expect(handler.send).toHaveBeenCalledWith("eth_blockNumber", []);
+    });
+
+    it("should surface the JSON-RPC error returned by the RPC without retrying", async () => {
+      const invalidParams = Object.assign(new Error("processing response error"), { error: { code: -32602, message: "invalid params" } });
+      const handler = mockHandler(() => Promise.reject(invalidParams));
+      const client = createPublicClient({ transport: rpcHandlerTransport(handler) });
+
+      await expect(client.request({ method: "eth_getBalance", params: [`0x${"11".repeat(20)}`, "latest"] })).rejects.toMatchObject({
+        name: "InvalidParamsRpcError",
+        code: -32602,
+      });
+      expect(handler.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("ethers v6 provider", () => {
+    it("should send requests through the handler without detecting the network", async () => {
+      const handler = mockHandler(() => Promise.resolve("0x10"));
+      const provider = new RPCHandlerV6Provider(handler);
+
+      await expect(provider.getBlockNumber()).resolves.toBe(16);
+      expect(handler.send).toHaveBeenCalledTimes(1);
+      expect(handler.send).toHaveBeenCalledWith("eth_blockNumber", []);
+      expect((await provider.getNetwork()).chainId).toBe(BigInt(100));
+
+      provider.destroy();
+    });
+
+    it("should send the requests ethers batches together as one batch", async () => {
+      const handler = mockHandler(() => Promise.resolve("0x10"));
+      const sendBatch = jest.fn((requests: unknown[]) => Promise.resolve([{ result: "0x10" }, { result: "0x20" }].slice(0, requests.length)));
+      Object.assign(handler, { sendBatch });
+      const provider = new RPCHandlerV6Provider(handler);
+      const address = `0x${"11".repeat(20)}`;
+
+      await expect(Promise.all([provider.getBlockNumber(), provider.getBalance(address)])).resolves.toEqual([16, BigInt(32)]);
+      expect(sendBatch).toHaveBeenCalledWith([
+        { method: "eth_blockNumber", params: [] },
+        { method: "eth_getBalance", params: [address, "latest"] },
+      ]);
+      expect(handler.send).not.toHaveBeenCalled();
+
+      provider.destroy();
+    });
+
+    it("should let ethers decode the JSON-RPC error returned by the RPC", async () => {
+      const handler = mockHandler(() => Promise.reject(revertError));
+      const provider = new RPCHandlerV6Provider(handler);
+
+      await expect(provider.call({ to: `0x${"11".repeat(20)}`, data: "0x" })).rejects.toMatchObject({ code: "CALL_EXCEPTION" });
+
+      provider.destroy();
+    });
+  });
+});
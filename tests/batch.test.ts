@@ -0,0 +1,61 @@
+import { chunkBatch, parseBatchResponse, toBatchBody, toBatchError, toBatchResponse } from "../types/batch";
+import { BatchNotSupportedError, JsonRpcRequestError } from "../types/errors";
+
+const rpcUrl = "https://batch.rpc";
+
+describe("batch", () => {
+  it("should number the requests of a batch by their index", () => {
+    expect(JSON.parse(toBatchBody([{ method: "eth_blockNumber" }, { method: "eth_getBalance", params: ["0x0", "latest"] }]))).toEqual([
+      { jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 0 },
+      { jsonrpc: "2.0", method: "eth_getBalance", params: ["0x0", "latest"], id: 1 },
+    ]);
+  });
+
+  it("should split batches by size", () => {
+    expect(chunkBatch([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkBatch([1, 2], 0)).toEqual([[1], [2]]);
+  });
+
+  describe("parseBatchResponse", () => {
+    it("should match responses to requests by id", () => {
+      const data = [
+        { jsonrpc: "2.0", id: 1, error: { code: 3, message: "execution reverted" } },
+        { jsonrpc: "2.0", id: 0, result: "0x10" },
+      ];
+
+      const [first, second, missing] = parseBatchResponse(rpcUrl, data, 3);
+
+      expect(first).toEqual({ result: "0x10" });
+      expect("error" in second && second.error).toBeInstanceOf(JsonRpcRequestError);
+      expect("error" in missing && missing.error).toEqual(new Error(`Missing JSON-RPC response from ${rpcUrl}`));
+    });
+
+    it("should detect RPCs rejecting batches", () => {
+      const rejected = { jsonrpc: "2.0", id: null, error: { code: -32600, message: "batch requests are not supported" } };
+
+      expect(() => parseBatchResponse(rpcUrl, rejected, 2)).toThrow(BatchNotSupportedError);
+      expect(() => parseBatchResponse(rpcUrl, [rejected, rejected], 2)).toThrow(BatchNotSupportedError);
+    });
+
+    it("should retry rate limits and invalid responses rather than give up on batching", () => {
+      const rateLimited = { jsonrpc: "2.0", id: null, error: { code: -32005, message: "limit exceeded" } };
+
+      expect(() => parseBatchResponse(rpcUrl, rateLimited, 2)).toThrow(JsonRpcRequestError);
+      expect(() => parseBatchResponse(rpcUrl, "<html></html>", 2)).toThrow("Invalid JSON-RPC response");
+    });
+  });
+
+  it("should turn HTTP errors rejecting a batch into a BatchNotSupportedError", () => {
+    const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+    expect(toBatchError(rpcUrl, httpError(413))).toBeInstanceOf(BatchNotSupportedError);
+    expect(toBatchError(rpcUrl, httpError(503))).not.toBeInstanceOf(BatchNotSupportedError);
+  });
+
+  it("should respond with JSON-RPC errors", () => {
+    expect(toBatchResponse({ result: "0x10" })).toEqual({ result: "0x10" });
+    expect(toBatchResponse({ error: new JsonRpcRequestError({ code: 3, message: "execution reverted" }) })).toEqual({
+      error: { code: 3, message: "execution reverted", data: undefined },
+    });
+  });
+});
@@ -22,7 +22,15 @@ export const testConfig: HandlerConstructorConfig = {
 jest.mock("axios", () => ({
   ...jest.requireActual("axios"),
   create: jest.fn(() => ({
-    post: jest.fn(),
+    post: jest.fn(() =>
+      Promise.resolve({
+        data: {
+          jsonrpc: "2.0",
+          id: 1,
+          result: { number: "0x1", timestamp: "0x1", hash: `0x${"ab".repeat(32)}` },
+        },
+      })
+    ),
   })),
 }));
 
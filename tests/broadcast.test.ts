@@ -0,0 +1,53 @@
+import { keccak256 } from "@ethersproject/keccak256";
+import { broadcastTransaction, getTransactionHash, isAlreadyKnownError, isBroadcastCall } from "../types/broadcast";
+
+// the signed transaction from the EIP-155 specification
+const signedTransaction =
+  "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83";
+const txHash = keccak256(signedTransaction);
+const rpcUrls = ["https://a.rpc", "https://b.rpc", "https://c.rpc"];
+
+function rpcError(message: string) {
+  return Object.assign(new Error("processing response error"), { code: "SERVER_ERROR", error: new Error(message) });
+}
+
+describe("Broadcast", () => {
+  it("should detect raw transaction calls", () => {
+    expect(isBroadcastCall("sendTransaction", [signedTransaction])).toBe(true);
+    expect(isBroadcastCall("send", ["eth_sendRawTransaction", [signedTransaction]])).toBe(true);
+    expect(isBroadcastCall("send", ["eth_sendTransaction", [{}]])).toBe(false);
+  });
+
+  it("should detect already known errors", () => {
+    expect(isAlreadyKnownError(rpcError("already known"))).toBe(true);
+    expect(isAlreadyKnownError(rpcError("nonce too low"))).toBe(false);
+  });
+
+  it("should compute the transaction hash", () => {
+    expect(getTransactionHash(signedTransaction)).toBe(txHash);
+  });
+
+  it("should send to every RPC and resolve with the first accepted hash", async () => {
+    const send = jest.fn((rpcUrl: string) => (rpcUrl === "https://b.rpc" ? Promise.resolve(txHash) : Promise.reject(rpcError("timeout"))));
+
+    await expect(broadcastTransaction(signedTransaction, rpcUrls, send)).resolves.toBe(txHash);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("should treat already known as accepted", async () => {
+    const send = jest.fn(() => Promise.reject(rpcError("already known")));
+
+    await expect(broadcastTransaction(signedTransaction, rpcUrls, send)).resolves.toBe(txHash);
+  });
+
+  it("should throw a deterministic error in preference to transport errors", async () => {
+    const nonceTooLow = rpcError("nonce too low");
+    const send = jest.fn((rpcUrl: string) => Promise.reject(rpcUrl === "https://c.rpc" ? nonceTooLow : rpcError("missing response")));
+
+    await expect(broadcastTransaction(signedTransaction, rpcUrls, send)).rejects.toBe(nonceTooLow);
+  });
+
+  it("should throw if there are no RPCs to broadcast to", async () => {
+    await expect(broadcastTransaction(signedTransaction, [], jest.fn())).rejects.toThrow("No RPCs available");
+  });
+});
@@ -0,0 +1,83 @@
+import { isProbedMethod, isUnsupportedMethodError, meetsRequirements, probeRpcCapabilities, supportsMethod } from "../types/capability-probe";
+import { JsonRpcRequestError } from "../types/errors";
+import { RpcCapabilities } from "../types/handler";
+
+const HEAD = 20_000_000;
+
+type FakeRpc = { prunedBelow?: number; maxLogsRange?: number; unsupported?: string[] };
+
+function fakeRpc({ prunedBelow = 0, maxLogsRange = Infinity, unsupported = [] }: FakeRpc) {
+  return jest.fn(async (method: string, params: unknown[]) => {
+    if (unsupported.some((prefix) => method.startsWith(prefix))) {
+      throw new JsonRpcRequestError({ code: -32601, message: `the method ${method} does not exist/is not available` });
+    }
+
+    switch (method) {
+      case "eth_blockNumber":
+        return `0x${HEAD.toString(16)}`;
+      case "eth_getBalance":
+        if (Number(params[1]) < prunedBelow) throw new JsonRpcRequestError({ code: -32000, message: "missing trie node" });
+        return "0x0";
+      case "eth_getLogs": {
+        const { fromBlock, toBlock } = params[0] as { fromBlock: string; toBlock: string };
+        if (Number(toBlock) - Number(fromBlock) + 1 > maxLogsRange) throw new JsonRpcRequestError({ code: -32005, message: "query exceeds max block range" });
+        return [];
+      }
+      default:
+        return null;
+    }
+  });
+}
+
+describe("Capability probe", () => {
+  it("should probe a full archive node with tracing", async () => {
+    await expect(probeRpcCapabilities(fakeRpc({}))).resolves.toEqual({
+      methodFamilies: ["debug", "trace"],
+      archiveDepth: HEAD - 1,
+      isArchive: true,
+      maxLogsRange: 100_000,
+    });
+  });
+
+  it("should probe a pruned node without tracing", async () => {
+    const call = fakeRpc({ prunedBelow: HEAD - 128, maxLogsRange: 10_000, unsupported: ["debug_", "trace_"] });
+
+    await expect(probeRpcCapabilities(call)).resolves.toEqual({ methodFamilies: [], archiveDepth: 128, isArchive: false, maxLogsRange: 10_000 });
+  });
+
+  it("should return null for an unreachable RPC", async () => {
+    await expect(probeRpcCapabilities(() => Promise.reject(new Error("ECONNREFUSED")))).resolves.toBeNull();
+  });
+
+  it("should only treat method errors as unsupported", () => {
+    expect(isUnsupportedMethodError(new JsonRpcRequestError({ code: -32601, message: "Method not found" }))).toBe(true);
+    expect(isUnsupportedMethodError(new JsonRpcRequestError({ code: -32600, message: "Unsupported method: trace_transaction" }))).toBe(true);
+    expect(isUnsupportedMethodError(new JsonRpcRequestError({ code: -32000, message: "transaction not found" }))).toBe(false);
+    expect(isUnsupportedMethodError(new Error("timeout of 1500ms exceeded"))).toBe(false);
+  });
+
+  describe("supportsMethod and meetsRequirements", () => {
+    const pruned: RpcCapabilities = { methodFamilies: ["debug"], archiveDepth: 128, isArchive: false, maxLogsRange: 1_000 };
+
+    it("should only rule out probed RPCs for methods they lack", () => {
+      expect(supportsMethod(pruned, "trace_block")).toBe(false);
+      expect(supportsMethod(pruned, "debug_traceCall")).toBe(true);
+      expect(supportsMethod(pruned, "eth_call")).toBe(true);
+      expect(supportsMethod(undefined, "trace_block")).toBe(true);
+    });
+
+    it("should not take Object.prototype keys for probed families", () => {
+      expect(isProbedMethod("constructor_x")).toBe(false);
+      expect(isProbedMethod("toString_x")).toBe(false);
+      expect(supportsMethod(pruned, "constructor_x")).toBe(true);
+    });
+
+    it("should check every requirement", () => {
+      expect(meetsRequirements(pruned, { archiveDepth: 100, methodFamilies: ["debug"], logsRange: 1_000 })).toBe(true);
+      expect(meetsRequirements(pruned, { isArchive: true })).toBe(false);
+      expect(meetsRequirements(pruned, { methodFamilies: ["trace"] })).toBe(false);
+      expect(meetsRequirements(pruned, { logsRange: 10_000 })).toBe(false);
+      expect(meetsRequirements(undefined, {})).toBe(false);
+    });
+  });
+});
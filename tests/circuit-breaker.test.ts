@@ -0,0 +1,75 @@
+import { CircuitBreaker } from "../types/circuit-breaker";
+
+const rpcUrl = "https://flaky.rpc";
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should start closed", () => {
+    expect(breaker.getState(rpcUrl)).toBe("closed");
+    expect(breaker.isAvailable(rpcUrl)).toBe(true);
+  });
+
+  it("should open after consecutive failures reach the threshold", () => {
+    breaker.recordFailure(rpcUrl);
+    breaker.recordFailure(rpcUrl);
+    expect(breaker.getState(rpcUrl)).toBe("closed");
+
+    breaker.recordFailure(rpcUrl);
+    expect(breaker.getState(rpcUrl)).toBe("open");
+    expect(breaker.isAvailable(rpcUrl)).toBe(false);
+  });
+
+  it("should reset the failure count on success", () => {
+    breaker.recordFailure(rpcUrl);
+    breaker.recordFailure(rpcUrl);
+    breaker.recordSuccess(rpcUrl);
+    breaker.recordFailure(rpcUrl);
+
+    expect(breaker.getState(rpcUrl)).toBe("closed");
+  });
+
+  it("should become half-open once the cooldown passes", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(rpcUrl);
+
+    jest.advanceTimersByTime(999);
+    expect(breaker.isAvailable(rpcUrl)).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.isAvailable(rpcUrl)).toBe(true);
+    expect(breaker.getState(rpcUrl)).toBe("half-open");
+  });
+
+  it("should close after a successful half-open call", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(rpcUrl);
+    jest.advanceTimersByTime(1000);
+
+    breaker.recordSuccess(rpcUrl);
+    expect(breaker.getState(rpcUrl)).toBe("closed");
+  });
+
+  it("should re-open after a failed half-open call", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(rpcUrl);
+    jest.advanceTimersByTime(1000);
+    expect(breaker.isAvailable(rpcUrl)).toBe(true);
+
+    breaker.recordFailure(rpcUrl);
+    expect(breaker.getState(rpcUrl)).toBe("open");
+  });
+
+  it("should report the state of every failing RPC", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(rpcUrl);
+    breaker.recordFailure("https://other.rpc");
+
+    expect(breaker.getStates()).toEqual({ [rpcUrl]: "open", "https://other.rpc": "closed" });
+  });
+});
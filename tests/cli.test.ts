@@ -0,0 +1,103 @@
+import { runCli } from "../types/cli";
+
+const mockHandler = {
+  updateLatencies: jest.fn(() => Promise.resolve()),
+  getRankedLatencies: jest.fn((): [string, number][] => [
+    ["100__https://fast.rpc", 50],
+    ["100__https://slow.rpc", 200],
+  ]),
+  getFailures: jest.fn(() => ({ "100__https://down.rpc": "timeout" })),
+  getNetworkName: () => "gnosis",
+  getFastestRpcProvider: jest.fn(() => Promise.resolve({ connection: { url: "https://fast.rpc" } })),
+};
+
+jest.mock("../types/constants", () => ({
+  networkIds: { "1": "ethereum-mainnet", "100": "gnosis", "10200": "gnosis-testnet" },
+  networkNames: { "ethereum-mainnet": "1", gnosis: "100", "gnosis-testnet": "10200" },
+  getNetworkData: (id: string) => ({ name: "gnosis", id, rpcs: [], currency: { name: "xDAI", symbol: "xDAI", decimals: 18 }, explorers: [], faucets: [] }),
+}));
+
+jest.mock("../types/rpc-handler", () => ({
+  RPCHandler: jest.fn(() => mockHandler),
+}));
+
+function run(...argv: string[]) {
+  const output = { log: jest.fn(), error: jest.fn() };
+  return runCli(argv, output).then((code) => ({ code, stdout: output.log.mock.calls.join("\n"), stderr: output.error.mock.calls.join("\n") }));
+}
+
+describe("rpc-racer", () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should print the ranking and failures of a race", async () => {
+    const { code, stdout } = await run("race", "gnosis");
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("1  https://fast.rpc  50ms");
+    expect(stdout).toContain("2  https://slow.rpc  200ms");
+    expect(stdout).toContain("https://down.rpc  timeout");
+  });
+
+  it("should round the latencies of the ranking", async () => {
+    mockHandler.getRankedLatencies.mockReturnValueOnce([["100__https://fast.rpc", 50.123456789]]);
+
+    await expect(run("race", "gnosis")).resolves.toMatchObject({ stdout: expect.stringContaining("1  https://fast.rpc  50ms") });
+  });
+
+  it("should print a race as JSON", async () => {
+    const { stdout } = await run("race", "100", "--json", "--timeout", "500");
+
+    expect(JSON.parse(stdout)).toEqual({
+      networkId: "100",
+      networkName: "gnosis",
+      latencies: [
+        { rpcUrl: "https://fast.rpc", latency: 50 },
+        { rpcUrl: "https://slow.rpc", latency: 200 },
+      ],
+      failures: { "https://down.rpc": "timeout" },
+    });
+    expect(jest.requireMock("../types/rpc-handler").RPCHandler).toHaveBeenCalledWith(expect.objectContaining({ networkId: "100", rpcTimeout: 500 }));
+  });
+
+  it("should fail a race without responders", async () => {
+    mockHandler.getRankedLatencies.mockReturnValueOnce([]);
+    await expect(run("race", "gnosis")).resolves.toMatchObject({ code: 1 });
+  });
+
+  it("should print only the URL of the fastest RPC", async () => {
+    await expect(run("fastest", "gnosis")).resolves.toEqual({ code: 0, stdout: "https://fast.rpc", stderr: "" });
+
+    mockHandler.getFastestRpcProvider.mockRejectedValueOnce(new Error("No RPCs available"));
+    await expect(run("fastest", "gnosis")).resolves.toMatchObject({ code: 1, stdout: "" });
+  });
+
+  it("should search the networks by ID or name", async () => {
+    const { stdout } = await run("networks", "gnosis", "--json");
+
+    expect(JSON.parse(stdout)).toEqual([
+      { id: "100", name: "gnosis" },
+      { id: "10200", name: "gnosis-testnet" },
+    ]);
+    await expect(run("networks", "1")).resolves.toMatchObject({ stdout: "ID  Name\n1   ethereum-mainnet" });
+    await expect(run("networks", "nope")).resolves.toMatchObject({ code: 1 });
+  });
+
+  it("should print the data of a network", async () => {
+    const { code, stdout } = await run("info", "gnosis");
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ id: "100", name: "gnosis" });
+  });
+
+  it("should reject unknown commands, networks and options", async () => {
+    await expect(run("explode")).resolves.toMatchObject({ code: 1, stderr: expect.stringContaining("Unknown command: explode") });
+    await expect(run("race", "atlantis")).resolves.toMatchObject({ code: 1, stderr: "Unknown network: atlantis" });
+    await expect(run("race", "constructor")).resolves.toMatchObject({ code: 1, stderr: "Unknown network: constructor" });
+    await expect(run("info", "toString")).resolves.toMatchObject({ code: 1, stderr: "Unknown network: toString" });
+    await expect(run("race", "gnosis", "--timeout", "soon")).resolves.toMatchObject({ code: 1 });
+    await expect(run("race", "gnosis", "--verbose")).resolves.toMatchObject({ code: 1 });
+    expect(mockHandler.updateLatencies).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { Eip1193Provider } from "../types/eip1193-provider";
+import { RPCHandler } from "../types/rpc-handler";
+
+function mockHandler() {
+  return { send: jest.fn(() => Promise.resolve("0x10")), getNetworkId: () => "100" };
+}
+
+function transportError() {
+  return Object.assign(new Error("missing response"), { code: "SERVER_ERROR", status: 503 });
+}
+
+describe("Eip1193Provider", () => {
+  let handler: ReturnType<typeof mockHandler>;
+  let provider: Eip1193Provider;
+
+  beforeEach(() => {
+    handler = mockHandler();
+    provider = new Eip1193Provider(handler as unknown as RPCHandler);
+  });
+
+  it("should send requests through the handler", async () => {
+    await expect(provider.request({ method: "eth_blockNumber" })).resolves.toBe("0x10");
+    expect(handler.send).toHaveBeenCalledWith("eth_blockNumber", []);
+  });
+
+  it("should answer eth_chainId and eth_accounts without a request", async () => {
+    await expect(provider.request({ method: "eth_chainId" })).resolves.toBe("0x64");
+    await expect(provider.request({ method: "eth_accounts" })).resolves.toEqual([]);
+    expect(handler.send).not.toHaveBeenCalled();
+  });
+
+  it("should reject wallet methods with 4200", async () => {
+    await expect(provider.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({ code: 4200 });
+  });
+
+  it("should reject with the JSON-RPC error returned by the RPC", async () => {
+    handler.send.mockImplementationOnce(() => Promise.reject({ code: "SERVER_ERROR", error: { code: 3, message: "execution reverted", data: "0x" } }));
+
+    await expect(provider.request({ method: "eth_call", params: [{}, "latest"] })).rejects.toMatchObject({ code: 3, data: "0x" });
+  });
+
+  it("should emit connect and disconnect as RPCs become reachable", async () => {
+    const connect = jest.fn();
+    const disconnect = jest.fn();
+    provider.on("connect", connect).on("disconnect", disconnect);
+
+    await provider.request({ method: "eth_blockNumber" });
+    await provider.request({ method: "eth_blockNumber" });
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(connect).toHaveBeenCalledWith({ chainId: "0x64" });
+
+    handler.send.mockImplementationOnce(() => Promise.reject(transportError()));
+    await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({ code: -32603 });
+    expect(disconnect).toHaveBeenCalledWith(expect.objectContaining({ code: 4900 }));
+    expect(provider.isConnected()).toBe(false);
+
+    provider.removeListener("connect", connect);
+    await provider.request({ method: "eth_blockNumber" });
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(provider.isConnected()).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { classifyError, getRateLimit, parseRetryAfter, toJsonRpcError } from "../types/error-classifier";
+
+function rpcError(code: number, message: string) {
+  const error = new Error(message) as Error & { code: number };
+  error.code = code;
+  return error;
+}
+
+function serverError(details: Record<string, unknown>) {
+  return Object.assign(new Error("processing response error"), { code: "SERVER_ERROR", ...details });
+}
+
+describe("classifyError", () => {
+  describe("deterministic errors", () => {
+    it.each(["CALL_EXCEPTION", "INSUFFICIENT_FUNDS", "NONCE_EXPIRED", "UNPREDICTABLE_GAS_LIMIT", "INVALID_ARGUMENT"])("should classify ethers %s", (code) => {
+      expect(classifyError(Object.assign(new Error(code), { code }))).toBe("deterministic");
+    });
+
+    it("should classify invalid params", () => {
+      const error = serverError({ error: rpcError(-32602, "invalid type: null, expected struct WithOtherFieldsHelper") });
+      expect(classifyError(error)).toBe("deterministic");
+    });
+
+    it("should classify reverts", () => {
+      expect(classifyError(serverError({ error: rpcError(3, "execution reverted: TRANSFER_FAILED") }))).toBe("deterministic");
+      expect(classifyError(serverError({ error: rpcError(-32000, "execution reverted") }))).toBe("deterministic");
+    });
+
+    it("should classify insufficient funds reported by the RPC", () => {
+      expect(classifyError(serverError({ error: rpcError(-32000, "insufficient funds for gas * price + value") }))).toBe("deterministic");
+    });
+
+    it("should classify JSON-RPC errors which are not wrapped by ethers", () => {
+      expect(classifyError(rpcError(-32602, "invalid type"))).toBe("deterministic");
+      expect(classifyError(rpcError(-32000, "header not found"))).toBe("transport");
+    });
+  });
+
+  describe("transport errors", () => {
+    it.each([500, 502, 503, 429])("should classify HTTP %s", (status) => {
+      expect(classifyError(serverError({ status, body: "execution reverted" }))).toBe("transport");
+    });
+
+    it("should classify timeouts", () => {
+      expect(classifyError(Object.assign(new Error("timeout"), { code: "TIMEOUT" }))).toBe("transport");
+    });
+
+    it("should classify dropped connections", () => {
+      expect(classifyError(serverError({ serverError: { code: "ECONNRESET" } }))).toBe("transport");
+    });
+
+    it("should classify RPC availability errors", () => {
+      expect(classifyError(serverError({ error: rpcError(-32005, "limit exceeded") }))).toBe("transport");
+      expect(classifyError(serverError({ error: rpcError(-32000, "header not found") }))).toBe("transport");
+      expect(classifyError(serverError({ error: rpcError(-32601, "the method debug_traceTransaction does not exist") }))).toBe("transport");
+    });
+
+    it("should classify eth_getLogs limits of a single RPC", () => {
+      const alchemy = rpcError(-32602, "Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range");
+      expect(classifyError(serverError({ error: alchemy }))).toBe("transport");
+      expect(classifyError(rpcError(-32005, "query returned more than 10000 results"))).toBe("transport");
+    });
+
+    it("should classify unknown errors", () => {
+      expect(classifyError(null)).toBe("transport");
+      expect(classifyError("socket hang up")).toBe("transport");
+    });
+  });
+});
+
+describe("toJsonRpcError", () => {
+  it("should unwrap the JSON-RPC error returned by the RPC", () => {
+    const error = serverError({ error: Object.assign(rpcError(3, "execution reverted"), { data: "0x08c379a0" }) });
+
+    expect(toJsonRpcError(error)).toEqual({ code: 3, message: "execution reverted", data: "0x08c379a0" });
+  });
+
+  it("should keep a JSON-RPC error as is", () => {
+    expect(toJsonRpcError(rpcError(-32602, "invalid params"))).toMatchObject({ code: -32602, message: "invalid params" });
+  });
+
+  it("should turn errors that never reached an RPC into internal errors", () => {
+    expect(toJsonRpcError(serverError({ reason: "timeout" }))).toMatchObject({ code: -32603, message: "timeout" });
+    expect(toJsonRpcError("socket hang up")).toMatchObject({ code: -32603, message: "socket hang up" });
+  });
+});
+
+describe("getRateLimit", () => {
+  const now = Date.parse("2024-06-01T00:00:00Z");
+
+  it("should detect HTTP 429s with their Retry-After", () => {
+    const error = serverError({ status: 429, headers: { "retry-after": "30" } });
+    expect(getRateLimit(error, now)).toEqual({ retryAfter: 30_000 });
+  });
+
+  it("should detect 429s from axios", () => {
+    const error = Object.assign(new Error("Request failed with status code 429"), { response: { status: 429, headers: {} } });
+    expect(getRateLimit(error, now)).toEqual({ retryAfter: null });
+  });
+
+  it("should detect JSON-RPC rate-limit errors", () => {
+    expect(getRateLimit(serverError({ error: rpcError(-32005, "limit exceeded") }), now)).toEqual({ retryAfter: null });
+    expect(getRateLimit(rpcError(-32000, "Too Many Requests"), now)).toEqual({ retryAfter: null });
+  });
+
+  it("should ignore query size limits and other errors", () => {
+    expect(getRateLimit(serverError({ error: rpcError(-32005, "query returned more than 10000 results") }), now)).toBeNull();
+    expect(getRateLimit(serverError({ status: 503 }), now)).toBeNull();
+    expect(getRateLimit(rpcError(3, "execution reverted"), now)).toBeNull();
+  });
+
+  it("should parse Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter("5", now)).toBe(5_000);
+    expect(parseRetryAfter("Sat, 01 Jun 2024 00:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter("Fri, 31 May 2024 00:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
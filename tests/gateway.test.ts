@@ -0,0 +1,139 @@
+import { RPCGateway } from "../adapters/gateway";
+import { RPCHandler } from "../types/rpc-handler";
+
+function mockHandler() {
+  return {
+    send: jest.fn((method: string) => {
+      if (method === "eth_call") {
+        return Promise.reject({ code: "SERVER_ERROR", error: { code: 3, message: "execution reverted", data: "0x" } });
+      }
+      return Promise.resolve("0x10");
+    }),
+    sendBatch: jest.fn((requests: { method: string }[]) =>
+      Promise.resolve(
+        requests.map(({ method }) => (method === "eth_call" ? { error: { code: 3, message: "execution reverted", data: "0x" } } : { result: "0x10" }))
+      )
+    ),
+    getActiveRpcUrl: jest.fn(() => "https://fast.rpc"),
+    getFastestRpcProvider: jest.fn(),
+    getRankedLatencies: jest.fn((): [string, number][] => [
+      ["100__https://fast.rpc", 50],
+      ["100__https://slow.rpc", 200],
+    ]),
+    getLatencies: () => ({ "100__https://slow.rpc": 200, "100__https://fast.rpc": 50 }),
+    getFailures: () => ({ "100__https://down.rpc": "timeout", "100__https://mainnet.infura.io/v3/abc123": "timeout" }),
+    getNetworkId: () => "100",
+    getNetworkName: () => "Gnosis",
+    log: jest.fn(),
+    metadataMaker: jest.fn(),
+    redact: jest.fn(<T>(value: T): T => JSON.parse(JSON.stringify(value).replace(/abc123/g, "${INFURA_API_KEY}"))),
+    proxySettings: { moduleName: "[Gateway Test]" },
+  };
+}
+
+describe("RPCGateway", () => {
+  let handler: ReturnType<typeof mockHandler>;
+  let gateway: RPCGateway;
+  let url: string;
+
+  function post(body: string) {
+    return fetch(url, { method: "POST", body, headers: { "Content-Type": "application/json" } });
+  }
+
+  beforeEach(async () => {
+    handler = mockHandler();
+    gateway = new RPCGateway(handler as unknown as RPCHandler, { port: 0, maxBodySize: 1024 });
+    url = await gateway.listen();
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it("should forward a JSON-RPC request through the handler", async () => {
+    const res = await post(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: [] }));
+
+    await expect(res.json()).resolves.toEqual({ jsonrpc: "2.0", id: 1, result: "0x10" });
+    expect(handler.send).toHaveBeenCalledWith("eth_blockNumber", []);
+    expect(handler.getFastestRpcProvider).not.toHaveBeenCalled();
+  });
+
+  it("should answer a batch in order, including errors", async () => {
+    const res = await post(
+      JSON.stringify([
+        { jsonrpc: "2.0", id: 1, method: "eth_blockNumber" },
+        { jsonrpc: "2.0", id: 2, method: "eth_call", params: [{}, "latest"] },
+        { jsonrpc: "2.0", id: 3 },
+        { jsonrpc: "2.0", method: "eth_chainId" },
+      ])
+    );
+
+    await expect(res.json()).resolves.toEqual([
+      { jsonrpc: "2.0", id: 1, result: "0x10" },
+      { jsonrpc: "2.0", id: 2, error: { code: 3, message: "execution reverted", data: "0x" } },
+      { jsonrpc: "2.0", id: 3, error: { code: -32600, message: "Invalid request" } },
+    ]);
+  });
+
+  it("should send the valid requests of a batch on as one batch", async () => {
+    await post(
+      JSON.stringify([
+        { jsonrpc: "2.0", id: 1, method: "eth_blockNumber" },
+        { jsonrpc: "2.0", id: 2 },
+        { jsonrpc: "2.0", id: 3, method: "eth_getBalance", params: ["0x0", "latest"] },
+      ])
+    );
+
+    expect(handler.sendBatch).toHaveBeenCalledTimes(1);
+    expect(handler.sendBatch).toHaveBeenCalledWith([
+      { method: "eth_blockNumber", params: [] },
+      { method: "eth_getBalance", params: ["0x0", "latest"] },
+    ]);
+    expect(handler.send).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid JSON and oversized bodies", async () => {
+    await expect((await post("{not json")).json()).resolves.toMatchObject({ id: null, error: { code: -32700 } });
+    expect((await post(`"${"a".repeat(2048)}"`)).status).toBe(413);
+  });
+
+  it("should not answer notifications", async () => {
+    const res = await post(JSON.stringify({ jsonrpc: "2.0", method: "eth_blockNumber" }));
+
+    expect(res.status).toBe(204);
+    expect(handler.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report health", async () => {
+    expect((await fetch(`${url}/health`)).status).toBe(200);
+
+    handler.getRankedLatencies.mockReturnValueOnce([]);
+    expect((await fetch(`${url}/health`)).status).toBe(503);
+  });
+
+  it("should report the ranking of the RPCs", async () => {
+    const status = await (await fetch(`${url}/status`)).json();
+
+    expect(status).toMatchObject({
+      networkId: "100",
+      activeRpcUrl: "https://fast.rpc",
+      ranking: [
+        { rpcUrl: "https://fast.rpc", latency: 50 },
+        { rpcUrl: "https://slow.rpc", latency: 200 },
+      ],
+      failures: { "100__https://down.rpc": "timeout" },
+    });
+  });
+
+  it("should redact the API keys of the status", async () => {
+    const status = await (await fetch(`${url}/status`)).text();
+
+    expect(status).toContain("https://mainnet.infura.io/v3/${INFURA_API_KEY}");
+    expect(status).not.toContain("abc123");
+  });
+
+  it("should answer 404 and 405 outside of the JSON-RPC route", async () => {
+    expect((await fetch(`${url}/nope`)).status).toBe(404);
+    expect((await fetch(url)).status).toBe(405);
+  });
+});
@@ -0,0 +1,91 @@
+import { HealthMonitor } from "../types/health-monitor";
+import { RPCHandler } from "../types/rpc-handler";
+
+const FAST_RPC = "https://fast.rpc";
+const SLOW_RPC = "https://slow.rpc";
+
+function mockHandler(latencies: Record<string, number>, activeRpcUrl: string | null) {
+  const handler = {
+    updateLatencies: jest.fn(() => Promise.resolve()),
+    getRankedLatencies: jest.fn(() => Object.entries(latencies).sort((a, b) => a[1] - b[1])),
+    getNetworkId: jest.fn(() => "1"),
+    getActiveRpcUrl: jest.fn(() => activeRpcUrl),
+    switchProvider: jest.fn(),
+    onDestroy: jest.fn(),
+    log: jest.fn(),
+    metadataMaker: jest.fn(() => ({})),
+    proxySettings: { moduleName: "[HealthMonitor Test]" },
+  };
+
+  return handler;
+}
+
+function asHandler(handler: ReturnType<typeof mockHandler>) {
+  return handler as unknown as RPCHandler;
+}
+
+describe("HealthMonitor", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should switch away from an RPC that failed the latest race", async () => {
+    const handler = mockHandler({ [`1__${FAST_RPC}`]: 50 }, SLOW_RPC);
+    await new HealthMonitor(asHandler(handler), { interval: 1000 }).check();
+
+    expect(handler.updateLatencies).toHaveBeenCalledTimes(1);
+    expect(handler.switchProvider).toHaveBeenCalledWith(FAST_RPC);
+  });
+
+  it("should switch away from an RPC slower than maxLatency", async () => {
+    const handler = mockHandler({ [`1__${FAST_RPC}`]: 50, [`1__${SLOW_RPC}`]: 800 }, SLOW_RPC);
+    await new HealthMonitor(asHandler(handler), { interval: 1000, maxLatency: 500 }).check();
+
+    expect(handler.switchProvider).toHaveBeenCalledWith(FAST_RPC);
+  });
+
+  it("should keep a healthy RPC even if another one is faster", async () => {
+    const handler = mockHandler({ [`1__${FAST_RPC}`]: 50, [`1__${SLOW_RPC}`]: 200 }, SLOW_RPC);
+    await new HealthMonitor(asHandler(handler), { interval: 1000, maxLatency: 500 }).check();
+
+    expect(handler.switchProvider).not.toHaveBeenCalled();
+  });
+
+  it("should log and survive a failed health check", async () => {
+    const handler = mockHandler({}, FAST_RPC);
+    handler.updateLatencies.mockImplementationOnce(() => Promise.reject(new Error("network down")));
+    await new HealthMonitor(asHandler(handler), { interval: 1000 }).check();
+
+    expect(handler.log).toHaveBeenCalledWith("error", expect.stringContaining("Health check failed"), expect.anything());
+    expect(handler.switchProvider).not.toHaveBeenCalled();
+  });
+
+  it("should re-race on every interval until stopped", async () => {
+    jest.useFakeTimers();
+    const handler = mockHandler({ [`1__${FAST_RPC}`]: 50 }, FAST_RPC);
+    const monitor = new HealthMonitor(asHandler(handler), { interval: 1000 });
+
+    monitor.start();
+    expect(monitor.isRunning()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(handler.updateLatencies).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+    expect(monitor.isRunning()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(handler.updateLatencies).toHaveBeenCalledTimes(3);
+  });
+
+  it("should stop once its handler is destroyed", () => {
+    const handler = mockHandler({ [`1__${FAST_RPC}`]: 50 }, FAST_RPC);
+    const monitor = new HealthMonitor(asHandler(handler), { interval: 1000 });
+
+    monitor.start();
+    const [[onDestroy]] = handler.onDestroy.mock.calls as unknown as [[() => void]];
+    onDestroy();
+
+    expect(monitor.isRunning()).toBe(false);
+  });
+});
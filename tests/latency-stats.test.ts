@@ -0,0 +1,72 @@
+import { getLatencyStatistic, rankLatencies, recordLatencyFailure, recordLatencySample } from "../types/latency-stats";
+import { LatencyStats } from "../types/handler";
+
+function recordSamples(durations: number[], settings = {}) {
+  return durations.reduce<LatencyStats | undefined>((stats, duration) => recordLatencySample(stats, duration, settings, 1000), undefined) as LatencyStats;
+}
+
+describe("Latency stats", () => {
+  it("should start the EWMA at the first sample", () => {
+    const stats = recordSamples([100]);
+
+    expect(stats.ewma).toBe(100);
+    expect(stats.lastSeen).toBe(1000);
+    expect(stats.successRate).toBe(1);
+  });
+
+  it("should weigh the newest sample by ewmaAlpha", () => {
+    const stats = recordSamples([100, 200], { ewmaAlpha: 0.5 });
+
+    expect(stats.ewma).toBe(150);
+  });
+
+  it("should keep at most sampleSize samples", () => {
+    const stats = recordSamples([1, 2, 3, 4, 5], { sampleSize: 3 });
+
+    expect(stats.samples).toEqual([3, 4, 5]);
+    expect(stats.successes).toBe(5);
+  });
+
+  it("should compute nearest-rank percentiles", () => {
+    const stats = recordSamples([50, 10, 40, 20, 30, 1000]);
+
+    expect(stats.p50).toBe(30);
+    expect(stats.p95).toBe(1000);
+  });
+
+  it("should track the success rate without touching the samples", () => {
+    const stats = recordLatencyFailure(recordSamples([100, 100, 100]));
+
+    expect(stats.samples).toEqual([100, 100, 100]);
+    expect(stats.successRate).toBe(0.75);
+  });
+
+  it("should return no statistic for an RPC that never responded", () => {
+    expect(getLatencyStatistic(recordLatencyFailure(undefined), "ewma")).toBeUndefined();
+    expect(getLatencyStatistic(undefined, "latest")).toBeUndefined();
+  });
+
+  describe("rankLatencies", () => {
+    const latencies = { "1__https://lucky.rpc": 10, "1__https://steady.rpc": 60, "100__https://gnosis.rpc": 1 };
+    const latencyStats = {
+      "1__https://lucky.rpc": recordSamples([900, 950, 10]),
+      "1__https://steady.rpc": recordSamples([50, 55, 60]),
+    };
+
+    it("should rank on the latest sample", () => {
+      expect(rankLatencies(latencies, "1", latencyStats, "latest")).toEqual([
+        ["1__https://lucky.rpc", 10],
+        ["1__https://steady.rpc", 60],
+      ]);
+    });
+
+    it("should not let one lucky sample win on the EWMA", () => {
+      expect(rankLatencies(latencies, "1", latencyStats, "ewma")[0][0]).toBe("1__https://steady.rpc");
+      expect(rankLatencies(latencies, "1", latencyStats, "p50")[0][0]).toBe("1__https://steady.rpc");
+    });
+
+    it("should fall back to the latest duration for RPCs without history", () => {
+      expect(rankLatencies(latencies, "100", latencyStats, "p95")).toEqual([["100__https://gnosis.rpc", 1]]);
+    });
+  });
+});
@@ -23,10 +23,11 @@ const BLOCK_NUMBER_CALL = `💬[RPCHandler] Successfully called provider method
 })}`;
 const DEBUG_RETRY_IN_20 = `›› [RPCHandler] Retrying in 20ms...`;
 const DEBUG_CALL_NUMBER = `›› [RPCHandler] Call number: `;
-const DEBUG_CONNECT_TO = `›› [RPCHandler] Connected to: 31337__http://127.0.0.1:8545`;
+const DEAD_RPC = "http://127.0.0.1:8544";
+const DEBUG_CONNECT_TO = `›› [RPCHandler] Connected to: 31337__${DEAD_RPC}`;
 const DEBUG_RETRY = `›› [RPCHandler] Current provider failed, retrying with next fastest provider... ${JSON.stringify({
   method: "send",
-  args: ["eth_call", [null, null, null, "latest"]],
+  args: ["eth_blockNumber", []],
 })}`;
 const NULL_ARG_TX_CALL = `×${JSON.stringify({
   error: {
@@ -310,8 +311,7 @@ describe("Logs", () => {
     provider = await handler.getFastestRpcProvider();
 
     try {
-      // this call will always fail and bad rpcs are filtered out
-      // so it retries 5 times then fails
+      // invalid params are a deterministic error so this call fails without being retried
       const response = await provider.send("eth_call", [null, null, null, "latest"]);
       expect(response).toBeDefined();
       expect(response).toBe("0x" + "00".repeat(32));
@@ -325,6 +325,24 @@ describe("Logs", () => {
     expect(filteredStrings.length).toBeGreaterThanOrEqual(2);
 
     let cleanDebugStrings = cleanSpyLogs(debugSpy);
+    expect(cleanDebugStrings).not.toEqual(expect.arrayContaining([cleanLogString(DEBUG_RETRY_IN_20)]));
+
+    // a dead RPC as the only provider turns every attempt into a retried transport failure
+    const latencies = handler.getLatencies();
+    handler["_latencies"] = { [`31337__${DEAD_RPC}`]: 1 };
+    const deadProvider = handler.createProviderProxy(new JsonRpcProvider({ url: DEAD_RPC, skipFetchSetup: true }, 31337), handler);
+
+    try {
+      // retries 5 times then fails
+      await deadProvider.send("eth_blockNumber", []);
+    } catch (error) {
+      expect(error).toBeDefined();
+      expect(error).toBeInstanceOf(Error);
+    }
+
+    handler["_latencies"] = latencies;
+
+    cleanDebugStrings = cleanSpyLogs(debugSpy);
     expect(cleanDebugStrings).toEqual(
       expect.arrayContaining([
         cleanLogString(DEBUG_CONNECT_TO),
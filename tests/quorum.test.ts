@@ -0,0 +1,79 @@
+import { QuorumDisagreementError } from "../types/errors";
+import { callWithQuorum, isQuorumCall, pinBlockTag, readsLatestBlock } from "../types/quorum";
+
+const rpcUrls = ["https://a.rpc", "https://b.rpc", "https://c.rpc"];
+
+function respondWith(responses: Record<string, unknown>) {
+  return (rpcUrl: string) => {
+    const response = responses[rpcUrl];
+    return response instanceof Error ? Promise.reject(response) : Promise.resolve(response);
+  };
+}
+
+describe("Quorum", () => {
+  describe("isQuorumCall", () => {
+    it("should match provider read methods", () => {
+      expect(isQuorumCall("getBalance", ["0x0"])).toBe(true);
+      expect(isQuorumCall("sendTransaction", ["0x0"])).toBe(false);
+    });
+
+    it("should match JSON-RPC read methods passed to send", () => {
+      expect(isQuorumCall("send", ["eth_call", []])).toBe(true);
+      expect(isQuorumCall("send", ["eth_sendRawTransaction", []])).toBe(false);
+    });
+
+    it("should respect a custom method list", () => {
+      expect(isQuorumCall("send", ["eth_blockNumber", []], ["eth_blockNumber"])).toBe(true);
+      expect(isQuorumCall("getBalance", ["0x0"], ["eth_blockNumber"])).toBe(false);
+    });
+  });
+
+  describe("pinBlockTag", () => {
+    it("should pin the latest block of provider methods", () => {
+      expect(pinBlockTag("getBalance", ["0x0"], 256)).toEqual(["0x0", "0x100"]);
+      expect(pinBlockTag("getStorageAt", ["0x0", 1, "latest"], 256)).toEqual(["0x0", 1, "0x100"]);
+    });
+
+    it("should pin the latest block of JSON-RPC methods passed to send", () => {
+      expect(pinBlockTag("send", ["eth_call", [{ to: "0x0" }, "latest"]], 256)).toEqual(["eth_call", [{ to: "0x0" }, "0x100"]]);
+      expect(pinBlockTag("send", ["eth_getCode", ["0x0"]], 256)).toEqual(["eth_getCode", ["0x0", "0x100"]]);
+    });
+
+    it("should leave other block tags and methods as they are", () => {
+      expect(readsLatestBlock("send", ["eth_getBalance", ["0x0", "0x10"]])).toBe(false);
+      expect(readsLatestBlock("getBalance", ["0x0", "pending"])).toBe(false);
+      expect(readsLatestBlock("send", ["eth_blockNumber", []])).toBe(false);
+      expect(pinBlockTag("send", ["eth_getBalance", ["0x0", "0x10"]], 256)).toEqual(["eth_getBalance", ["0x0", "0x10"]]);
+    });
+  });
+
+  describe("callWithQuorum", () => {
+    it("should resolve once the threshold agrees", async () => {
+      const call = respondWith({ "https://a.rpc": "0x1", "https://b.rpc": "0x2", "https://c.rpc": "0x1" });
+      await expect(callWithQuorum("eth_getBalance", rpcUrls, 2, call)).resolves.toBe("0x1");
+    });
+
+    it("should not count errors towards agreement", async () => {
+      const call = respondWith({ "https://a.rpc": "0x1", "https://b.rpc": new Error("timeout"), "https://c.rpc": "0x1" });
+      await expect(callWithQuorum("eth_getBalance", rpcUrls, 2, call)).resolves.toBe("0x1");
+    });
+
+    it("should throw a QuorumDisagreementError when the RPCs disagree", async () => {
+      const call = respondWith({ "https://a.rpc": "0x1", "https://b.rpc": "0x2", "https://c.rpc": new Error("timeout") });
+
+      const error = (await callWithQuorum("eth_getBalance", rpcUrls, 2, call).catch((err) => err)) as QuorumDisagreementError;
+
+      expect(error).toBeInstanceOf(QuorumDisagreementError);
+      expect(error.method).toBe("eth_getBalance");
+      expect(error.responses["https://a.rpc"]).toBe("0x1");
+      expect(error.responses["https://b.rpc"]).toBe("0x2");
+      expect(error.responses["https://c.rpc"]).toBeInstanceOf(Error);
+    });
+
+    it("should throw when fewer RPCs than the threshold are available", async () => {
+      const call = jest.fn();
+      await expect(callWithQuorum("eth_call", rpcUrls.slice(0, 1), 2, call)).rejects.toBeInstanceOf(QuorumDisagreementError);
+      expect(call).not.toHaveBeenCalled();
+    });
+  });
+});
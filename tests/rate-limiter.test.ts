@@ -0,0 +1,87 @@
+import { RateLimiter } from "../types/rate-limiter";
+
+const rpcUrl = "https://busy.rpc";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("cooldown", () => {
+    it("should skip an RPC until its Retry-After has passed", () => {
+      const limiter = new RateLimiter();
+
+      expect(limiter.recordRateLimit(rpcUrl, 2000)).toBe(2000);
+      expect(limiter.isCoolingDown(rpcUrl)).toBe(true);
+      expect(limiter.getRateLimitedRpcs()).toEqual({ [rpcUrl]: 2000 });
+
+      jest.advanceTimersByTime(2000);
+      expect(limiter.isCoolingDown(rpcUrl)).toBe(false);
+      expect(limiter.getRateLimitedRpcs()).toEqual({});
+    });
+
+    it("should fall back to the cooldown and cap Retry-After", () => {
+      const limiter = new RateLimiter({ cooldown: 500, maxCooldown: 60_000 });
+
+      expect(limiter.recordRateLimit(rpcUrl, null)).toBe(500);
+      expect(limiter.recordRateLimit("https://strict.rpc", 3_600_000)).toBe(60_000);
+    });
+
+    it("should wait for the first RPC to cool down, unless that takes longer than maxWait", () => {
+      const limiter = new RateLimiter({ maxWait: 5000 });
+
+      limiter.recordRateLimit(rpcUrl, 3000);
+      limiter.recordRateLimit("https://strict.rpc", 8000);
+
+      expect(limiter.getCooldownWait([rpcUrl, "https://strict.rpc"])).toBe(3000);
+      expect(limiter.getCooldownWait([rpcUrl, "https://idle.rpc"])).toBe(0);
+      expect(limiter.getCooldownWait(["https://strict.rpc"])).toBeNull();
+    });
+
+    it("should never shorten a running cooldown", () => {
+      const limiter = new RateLimiter();
+
+      limiter.recordRateLimit(rpcUrl, 5000);
+      limiter.recordRateLimit(rpcUrl, 1000);
+      jest.advanceTimersByTime(1000);
+
+      expect(limiter.isCoolingDown(rpcUrl)).toBe(true);
+    });
+  });
+
+  describe("token buckets", () => {
+    it("should not limit RPCs without a bucket", () => {
+      const limiter = new RateLimiter();
+
+      limiter.takeToken(rpcUrl);
+      expect(limiter.hasToken(rpcUrl)).toBe(true);
+      expect(limiter.getTokenWait([rpcUrl])).toBe(0);
+    });
+
+    it("should allow a burst then refill at requestsPerSecond", () => {
+      const limiter = new RateLimiter({ tokenBucket: { requestsPerSecond: 2, burst: 3 } });
+
+      for (let i = 0; i < 3; i++) limiter.takeToken(rpcUrl);
+      expect(limiter.hasToken(rpcUrl)).toBe(false);
+      expect(limiter.getTokenWait([rpcUrl])).toBe(500);
+
+      jest.advanceTimersByTime(500);
+      expect(limiter.hasToken(rpcUrl)).toBe(true);
+    });
+
+    it("should use the bucket of the RPC over the default one", () => {
+      const limiter = new RateLimiter({ tokenBucket: { requestsPerSecond: 1 } }, { [rpcUrl]: { rateLimit: { requestsPerSecond: 10 } } });
+
+      limiter.takeToken(rpcUrl);
+      limiter.takeToken("https://other.rpc");
+
+      expect(limiter.hasToken(rpcUrl)).toBe(true);
+      expect(limiter.hasToken("https://other.rpc")).toBe(false);
+      expect(limiter.getTokenWait([rpcUrl, "https://other.rpc"])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { DeadlineExceededError } from "../types/errors";
+import { getRetryDelay, resolveRetryPolicy, withDeadline } from "../types/retry-policy";
+
+describe("Retry policy", () => {
+  describe("resolveRetryPolicy", () => {
+    it("should default to a constant retryDelay", () => {
+      expect(resolveRetryPolicy(null, 100)).toEqual({ strategy: "constant", baseDelay: 100 });
+    });
+
+    it("should accept a strategy shorthand", () => {
+      expect(resolveRetryPolicy("exponential", 100)).toEqual({ strategy: "exponential", baseDelay: 100 });
+    });
+
+    it("should keep the baseDelay set by the policy", () => {
+      expect(resolveRetryPolicy({ strategy: "constant", baseDelay: 50, deadline: 1000 }, 100)).toEqual({ strategy: "constant", baseDelay: 50, deadline: 1000 });
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should return the base delay for the constant strategy", () => {
+      const policy = resolveRetryPolicy("constant", 100);
+      expect([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt, 100))).toEqual([100, 100, 100]);
+    });
+
+    it("should double the delay for the exponential strategy", () => {
+      const policy = resolveRetryPolicy("exponential", 100);
+      expect([1, 2, 3, 4].map((attempt) => getRetryDelay(policy, attempt, 100))).toEqual([100, 200, 400, 800]);
+    });
+
+    it("should cap delays at maxDelay", () => {
+      const policy = resolveRetryPolicy({ strategy: "exponential", maxDelay: 300 }, 100);
+      expect(getRetryDelay(policy, 4, 100)).toBe(300);
+    });
+
+    it("should cap the built-in strategies at 10s without a maxDelay", () => {
+      expect(getRetryDelay(resolveRetryPolicy("exponential", 100), 25, 100)).toBe(10_000);
+      expect(getRetryDelay(resolveRetryPolicy("decorrelated-jitter", 100), 25, 1_000_000)).toBeLessThanOrEqual(10_000);
+      expect(getRetryDelay(resolveRetryPolicy("constant", 20_000), 1, 20_000)).toBe(20_000);
+    });
+
+    it("should keep decorrelated jitter between the base and three times the previous delay", () => {
+      const policy = resolveRetryPolicy("decorrelated-jitter", 100);
+      for (let i = 0; i < 50; i++) {
+        const delay = getRetryDelay(policy, 2, 200);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(600);
+      }
+    });
+
+    it("should call a user function", () => {
+      const strategy = jest.fn((attempt: number) => attempt * 10);
+      const policy = resolveRetryPolicy(strategy, 100);
+
+      expect(getRetryDelay(policy, 3, 20)).toBe(30);
+      expect(strategy).toHaveBeenCalledWith(3, 20);
+    });
+  });
+
+  describe("withDeadline", () => {
+    it("should resolve when the promise settles in time", async () => {
+      await expect(withDeadline(Promise.resolve("0x1"), "send", Date.now(), 1000)).resolves.toBe("0x1");
+    });
+
+    it("should reject with a DeadlineExceededError when the promise is too slow", async () => {
+      const slow = new Promise((resolve) => setTimeout(() => resolve("0x1"), 200));
+      await expect(withDeadline(slow, "send", Date.now(), 20)).rejects.toBeInstanceOf(DeadlineExceededError);
+    });
+
+    it("should reject immediately once the deadline has passed", async () => {
+      await expect(withDeadline(Promise.resolve("0x1"), "send", Date.now() - 100, 50)).rejects.toBeInstanceOf(DeadlineExceededError);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { isRpcPermitted, matchesRpcPattern } from "../types/rpc-filter";
+
+describe("RPC filter", () => {
+  describe("matchesRpcPattern", () => {
+    it("should match exact URLs ignoring a trailing slash", () => {
+      expect(matchesRpcPattern("https://rpc.ankr.com/eth/", "https://rpc.ankr.com/eth")).toBe(true);
+      expect(matchesRpcPattern("https://rpc.ankr.com/eth_goerli", "https://rpc.ankr.com/eth")).toBe(false);
+    });
+
+    it("should match hostname globs", () => {
+      expect(matchesRpcPattern("https://mainnet.infura.io/v3/key", "*.infura.io")).toBe(true);
+      expect(matchesRpcPattern("https://infura.io.evil.com", "*.infura.io")).toBe(false);
+      expect(matchesRpcPattern("https://cloudflare-eth.com", "cloudflare-eth.com")).toBe(true);
+    });
+
+    it("should test regular expressions against the full URL", () => {
+      expect(matchesRpcPattern("https://eth.llamarpc.com/rpc/key", /\/rpc\//)).toBe(true);
+      expect(matchesRpcPattern("https://eth.llamarpc.com", /\/rpc\//)).toBe(false);
+    });
+  });
+
+  describe("isRpcPermitted", () => {
+    const url = "https://mainnet.infura.io/v3/key";
+
+    it("should permit every RPC without a filter", () => {
+      expect(isRpcPermitted(url, undefined)).toBe(true);
+      expect(isRpcPermitted(url, {})).toBe(true);
+    });
+
+    it("should only permit allowlisted RPCs once an allowlist is given", () => {
+      expect(isRpcPermitted(url, { allow: ["*.infura.io"] })).toBe(true);
+      expect(isRpcPermitted("https://cloudflare-eth.com", { allow: ["*.infura.io"] })).toBe(false);
+    });
+
+    it("should let the denylist win over the allowlist", () => {
+      expect(isRpcPermitted(url, { allow: ["*.infura.io"], deny: [url] })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { JsonRpcProvider } from "@ethersproject/providers";
+import { DeadlineExceededError } from "../types/errors";
+import { HandlerConstructorConfig } from "../types/handler";
+import { PrettyLogs } from "../types/logs";
+import { RPCHandler } from "../types/rpc-handler";
+import { RPCService } from "../types/rpc-service";
+import * as rpcTemplates from "../types/rpc-templates";
+import { MemoryStorageAdapter } from "../types/storage-adapters";
+
+jest.mock("../types/constants", () => ({
+  LOCAL_HOST: "http://127.0.0.1:8545",
+  LOCAL_HOST_2: "http://127.0.0.1:8546",
+  networkIds: { "100": "gnosis" },
+  networkRpcs: { "100": { rpcs: [] } },
+}));
+
+const rpcUrls = ["https://fast.rpc", "https://slow.rpc"];
+
+// an ethers v5 error for an RPC that could not serve the call
+const serverError = Object.assign(new Error("bad response"), { code: "SERVER_ERROR", status: 503 });
+
+function createHandler(proxySettings: Partial<HandlerConstructorConfig["proxySettings"]> = {}) {
+  const handler = new RPCHandler({
+    networkId: "100",
+    networkName: null,
+    networkRpcs: rpcUrls.map((url) => ({ url })),
+    runtimeRpcs: null,
+    autoStorage: false,
+    cacheRefreshCycles: 10,
+    rpcTimeout: 1000,
+    proxySettings: { retryCount: 3, retryDelay: 0, logTier: "none", logger: null, strictLogs: true, ...proxySettings },
+  });
+
+  handler["_latencies"] = { "100__https://fast.rpc": 50, "100__https://slow.rpc": 200 };
+  handler.switchProvider(rpcUrls[0]);
+  return handler;
+}
+
+// answers every JSON-RPC call by the URL of the provider it was made on
+function mockRpcs(respond: (rpcUrl: string, method: string) => Promise<unknown>) {
+  return jest.spyOn(JsonRpcProvider.prototype, "send").mockImplementation(function (this: JsonRpcProvider, method: string) {
+    return respond(this.connection.url, method);
+  });
+}
+
+// an ethers v5 error for a 429 without a Retry-After
+const rateLimitError = Object.assign(new Error("bad response"), { code: "SERVER_ERROR", status: 429 });
+
+// the signed transaction from the EIP-155 specification
+const signedTransaction =
+  "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83";
+
+describe("RPCHandler proxy", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("circuit breaker", () => {
+    it("should reject once every circuit is open rather than resolve null", async () => {
+      const send = mockRpcs(() => Promise.reject(serverError));
+      const handler = createHandler({ circuitBreaker: { failureThreshold: 1, cooldown: 60_000 } });
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBe(serverError);
+      // each RPC was tried once before its circuit opened
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(handler.getCircuitStates()).toEqual({ "https://fast.rpc": "open", "https://slow.rpc": "open" });
+    });
+
+    it("should skip open circuits and serve the call from the next RPC", async () => {
+      mockRpcs((rpcUrl) => (rpcUrl === "https://fast.rpc" ? Promise.reject(serverError) : Promise.resolve("0x10")));
+      const handler = createHandler({ circuitBreaker: { failureThreshold: 1, cooldown: 60_000 } });
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).resolves.toBe("0x10");
+      await expect(handler.getProvider().send("eth_blockNumber", [])).resolves.toBe("0x10");
+      expect(handler.getCircuitStates()["https://fast.rpc"]).toBe("open");
+    });
+  });
+
+  describe("retry policy", () => {
+    it.each(["exponential", "decorrelated-jitter"] as const)("should keep the %s backoff within the cap across many RPCs", async (strategy) => {
+      const manyRpcUrls = [...Array(20).keys()].map((index) => `https://rpc-${index}.rpc`);
+      const delays: number[] = [];
+      const realSetTimeout = global.setTimeout;
+      // records the waits without sitting through them
+      jest.spyOn(global, "setTimeout").mockImplementation(((callback: () => void, ms?: number) => {
+        delays.push(ms ?? 0);
+        return realSetTimeout(callback, 0);
+      }) as typeof setTimeout);
+      const send = mockRpcs(() => Promise.reject(serverError));
+
+      const handler = new RPCHandler({
+        networkId: "100",
+        networkName: null,
+        networkRpcs: manyRpcUrls.map((url) => ({ url })),
+        runtimeRpcs: null,
+        autoStorage: false,
+        cacheRefreshCycles: 10,
+        rpcTimeout: 1000,
+        proxySettings: { retryCount: 3, retryDelay: 100, retryPolicy: strategy, logTier: "none", logger: null, strictLogs: true },
+      });
+      handler["_latencies"] = Object.fromEntries(manyRpcUrls.map((url, index) => [`100__${url}`, index]));
+      handler.switchProvider(manyRpcUrls[0]);
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBe(serverError);
+      expect(send.mock.calls.length).toBeGreaterThan(manyRpcUrls.length * 2);
+      expect(Math.max(...delays)).toBeLessThanOrEqual(10_000);
+    });
+  });
+
+  describe("rate limits", () => {
+    it("should wait for the first RPC to cool down once every RPC is rate-limited", async () => {
+      const calls: string[] = [];
+      const send = mockRpcs((rpcUrl) => {
+        calls.push(rpcUrl);
+        return calls.length <= 2 ? Promise.reject(rateLimitError) : Promise.resolve("0x10");
+      });
+      const handler = createHandler({ rateLimit: { cooldown: 50 } });
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).resolves.toBe("0x10");
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(calls).toEqual(["https://fast.rpc", "https://slow.rpc", "https://slow.rpc"]);
+    });
+
+    it("should throw the rate-limit error once the cooldown outlasts maxWait", async () => {
+      const send = mockRpcs(() => Promise.reject(rateLimitError));
+      const handler = createHandler({ rateLimit: { cooldown: 60_000, maxWait: 1000 } });
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBe(rateLimitError);
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(Object.keys(handler.getRateLimitedRpcs())).toEqual(rpcUrls);
+    });
+
+    it("should not wait for a cooldown past the deadline", async () => {
+      mockRpcs(() => Promise.reject(rateLimitError));
+      const handler = createHandler({ rateLimit: { cooldown: 5000 }, retryPolicy: { strategy: "constant", deadline: 1000 } });
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBeInstanceOf(DeadlineExceededError);
+    });
+  });
+
+  describe("token buckets", () => {
+    it("should move on to the next RPC with a token left", async () => {
+      const calls: string[] = [];
+      mockRpcs((rpcUrl) => {
+        calls.push(rpcUrl);
+        return Promise.resolve("0x10");
+      });
+      const handler = createHandler({ rateLimit: { tokenBucket: { requestsPerSecond: 1 } } });
+
+      await handler.getProvider().send("eth_blockNumber", []);
+      await handler.getProvider().send("eth_blockNumber", []);
+
+      expect(calls).toEqual(["https://fast.rpc", "https://slow.rpc"]);
+    });
+
+    it("should not wait for a token past the deadline", async () => {
+      const send = mockRpcs(() => Promise.resolve("0x10"));
+      const handler = createHandler({ rateLimit: { tokenBucket: { requestsPerSecond: 1 } }, retryPolicy: { strategy: "constant", deadline: 100 } });
+
+      await handler.getProvider().send("eth_blockNumber", []);
+      await handler.getProvider().send("eth_blockNumber", []);
+
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBeInstanceOf(DeadlineExceededError);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("quorum", () => {
+    it("should pin the latest block so RPCs at different heights agree", async () => {
+      const calls: unknown[][] = [];
+      jest.spyOn(JsonRpcProvider.prototype, "send").mockImplementation(function (this: JsonRpcProvider, method: string, params: unknown[]) {
+        if (method === "eth_blockNumber") {
+          return Promise.resolve(this.connection.url === "https://fast.rpc" ? "0x101" : "0x100");
+        }
+        calls.push(params);
+        return Promise.resolve("0x10");
+      });
+      const handler = createHandler({ quorum: { providers: 2, threshold: 2 } });
+
+      await expect(handler.getProvider().send("eth_getBalance", ["0x0", "latest"])).resolves.toBe("0x10");
+      expect(calls).toEqual([
+        ["0x0", "0x100"],
+        ["0x0", "0x100"],
+      ]);
+    });
+
+    it("should record failures and skip open circuits", async () => {
+      const send = mockRpcs((rpcUrl) => (rpcUrl === "https://fast.rpc" ? Promise.reject(serverError) : Promise.resolve("0x10")));
+      const handler = createHandler({ quorum: { providers: 2, threshold: 1 }, circuitBreaker: { failureThreshold: 1, cooldown: 60_000 } });
+
+      await expect(handler.getProvider().send("eth_getBalance", ["0x0", "0x10"])).resolves.toBe("0x10");
+      expect(handler.getCircuitStates()["https://fast.rpc"]).toBe("open");
+
+      send.mockClear();
+      await handler.getProvider().send("eth_getBalance", ["0x0", "0x10"]);
+      expect(send.mock.instances.map((provider) => (provider as unknown as JsonRpcProvider).connection.url)).toEqual(["https://slow.rpc"]);
+    });
+  });
+
+  describe("sendBatch", () => {
+    it("should only retry the requests which failed", async () => {
+      const callBatch = jest.spyOn(RPCService, "callBatch").mockResolvedValue([{ result: "0x10" }, { error: serverError }, { result: "0x64" }]);
+      const call = jest.spyOn(RPCService, "call").mockResolvedValue("0x1");
+      const handler = createHandler();
+
+      const responses = await handler.sendBatch([
+        { method: "eth_blockNumber" },
+        { method: "eth_getBalance", params: ["0x0", "latest"] },
+        { method: "eth_chainId" },
+      ]);
+
+      expect(responses).toEqual([{ result: "0x10" }, { result: "0x1" }, { result: "0x64" }]);
+      expect(callBatch).toHaveBeenCalledTimes(1);
+      expect(callBatch.mock.calls[0][0]).toBe("https://fast.rpc");
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(call.mock.calls[0].slice(0, 3)).toEqual(["https://slow.rpc", "eth_getBalance", ["0x0", "latest"]]);
+    });
+
+    it("should broadcast the transactions of a batch through the proxy rather than batch them", async () => {
+      const callBatch = jest.spyOn(RPCService, "callBatch").mockResolvedValue([{ result: "0x10" }, { result: "0x64" }]);
+      const calls: string[] = [];
+      mockRpcs((rpcUrl, method) => {
+        calls.push(`${method} ${rpcUrl}`);
+        return Promise.reject(serverError);
+      });
+      const handler = createHandler({ broadcast: { providers: 2 } });
+
+      const [, transaction] = await handler.sendBatch([
+        { method: "eth_blockNumber" },
+        { method: "eth_sendRawTransaction", params: [signedTransaction] },
+        { method: "eth_chainId" },
+      ]);
+
+      expect(transaction).toMatchObject({ error: { code: -32603 } });
+      expect(callBatch.mock.calls[0][1]).toEqual([{ method: "eth_blockNumber" }, { method: "eth_chainId" }]);
+      // each RPC is sent the transaction once
+      expect(calls.sort()).toEqual(["eth_sendRawTransaction https://fast.rpc", "eth_sendRawTransaction https://slow.rpc"]);
+    });
+
+    it("should send probed methods through the proxy", async () => {
+      const callBatch = jest.spyOn(RPCService, "callBatch");
+      const call = jest.spyOn(RPCService, "call").mockResolvedValue("0x10");
+      const send = mockRpcs(() => Promise.resolve(null));
+      const handler = createHandler();
+
+      const responses = await handler.sendBatch([{ method: "eth_blockNumber" }, { method: "debug_traceTransaction", params: ["0x0"] }]);
+
+      expect(responses).toEqual([{ result: "0x10" }, { result: null }]);
+      expect(callBatch).not.toHaveBeenCalled();
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith("debug_traceTransaction", ["0x0"]);
+    });
+  });
+
+  describe("storage", () => {
+    it("should race from scratch when the stored results fail to load", async () => {
+      const storage = new MemoryStorageAdapter();
+      await storage.setItem("rpcLatencies", JSON.stringify({ "100__https://fast.rpc": 50 }));
+      // the migration of the 1.x results fails to write
+      jest.spyOn(storage, "setItem").mockRejectedValue(new Error("quota exceeded"));
+      const race = jest.spyOn(RPCService, "testRpcPerformance").mockResolvedValue({
+        latencies: { "100__https://slow.rpc": 200 },
+        runtimeRpcs: ["https://slow.rpc"],
+        failures: {},
+        retryAfter: {},
+        blockHeights: {},
+      });
+
+      const handler = new RPCHandler({
+        networkId: "100",
+        networkName: null,
+        networkRpcs: rpcUrls.map((url) => ({ url })),
+        runtimeRpcs: null,
+        autoStorage: true,
+        storage,
+        cacheRefreshCycles: 10,
+        rpcTimeout: 1000,
+        proxySettings: { retryCount: 3, retryDelay: 0, logTier: "none", logger: null, strictLogs: true },
+      });
+
+      await expect(handler.updateLatencies()).resolves.toBeUndefined();
+      await expect(handler.updateLatencies()).resolves.toBeUndefined();
+      expect(race).toHaveBeenCalledTimes(2);
+      expect(handler.getLatencies()).toEqual({ "100__https://slow.rpc": 200 });
+    });
+  });
+
+  describe("logs", () => {
+    const infura = "https://mainnet.infura.io/v3/${INFURA_API_KEY}";
+
+    function createLoggingHandler(logTier: HandlerConstructorConfig["proxySettings"]["logTier"]) {
+      const logger = { log: jest.fn(), error: jest.fn() };
+      const handler = new RPCHandler({
+        networkId: "100",
+        networkName: null,
+        networkRpcs: [{ url: infura }],
+        runtimeRpcs: null,
+        autoStorage: false,
+        cacheRefreshCycles: 10,
+        rpcTimeout: 1000,
+        apiKeys: { INFURA_API_KEY: "abc123" },
+        proxySettings: { retryCount: 3, retryDelay: 0, logTier, logger: logger as unknown as PrettyLogs, strictLogs: true },
+      });
+
+      return { handler, logger };
+    }
+
+    it("should redact API keys once per logged entry", () => {
+      const { handler, logger } = createLoggingHandler("verbose");
+      const redactSecrets = jest.spyOn(rpcTemplates, "redactSecrets");
+
+      handler.log("error", "Failed", handler.metadataMaker(new Error("missing response"), "send", [], { rpc: "https://mainnet.infura.io/v3/abc123" }));
+
+      expect(redactSecrets).toHaveBeenCalledTimes(2); // the message and the metadata
+      expect(logger.log).toHaveBeenCalledWith("error", "Failed", expect.objectContaining({ metadata: { rpc: infura } }));
+    });
+
+    it("should not redact entries which are not logged", () => {
+      const { handler, logger } = createLoggingHandler("none");
+      const redactSecrets = jest.spyOn(rpcTemplates, "redactSecrets");
+
+      handler.log("error", "Failed", handler.metadataMaker(new Error("missing response"), "send", []));
+
+      expect(redactSecrets).not.toHaveBeenCalled();
+      expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should redact the credentials and headers of the RPCs", async () => {
+      const secrets = ["bearer-secret", "basic-secret", "header-secret", Buffer.from("admin:basic-secret").toString("base64")];
+      const logger = { log: jest.fn(), error: jest.fn() };
+      const handler = new RPCHandler({
+        networkId: "100",
+        networkName: null,
+        networkRpcs: [
+          { url: "https://fast.rpc", auth: { token: "bearer-secret" }, headers: { "x-api-key": "header-secret" } },
+          { url: "https://slow.rpc", auth: { username: "admin", password: "basic-secret" } },
+        ],
+        runtimeRpcs: null,
+        autoStorage: false,
+        cacheRefreshCycles: 10,
+        rpcTimeout: 1000,
+        proxySettings: { retryCount: 3, retryDelay: 0, logTier: "verbose", logger: logger as unknown as PrettyLogs, strictLogs: true },
+      });
+      mockRpcs(() => Promise.reject(serverError));
+
+      // fatal logs are thrown as the return value of log()
+      await expect(Promise.resolve().then(() => handler.getProvider())).rejects.toBeUndefined();
+      handler.switchProvider("https://fast.rpc");
+      await expect(handler.getProvider().send("eth_blockNumber", [])).rejects.toBeUndefined();
+      handler.log("error", "Failed", { networkRpcs: handler["_networkRpcs"] });
+
+      const logged = JSON.stringify([...logger.log.mock.calls, ...logger.error.mock.calls]);
+      expect(logged).toContain("Provider is not initialized");
+      expect(logged).toContain("No RPCs available");
+      secrets.forEach((secret) => expect(logged).not.toContain(secret));
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { JsonRpcProvider, WebSocketProvider } from "@ethersproject/providers";
+import { HealthMonitor } from "../types/health-monitor";
+import { RPCHandler } from "../types/rpc-handler";
+import { RPCHandlerRegistry, RegistryConfig } from "../types/rpc-handler-registry";
+import { PrettyLogs } from "../types/logs";
+import { TabCoordinator } from "../types/tab-coordinator";
+
+const registryConfig: RegistryConfig = {
+  autoStorage: false,
+  cacheRefreshCycles: 3,
+  rpcTimeout: 600,
+  proxySettings: {
+    retryCount: 3,
+    retryDelay: 10,
+    logTier: "info",
+    logger: null,
+    strictLogs: true,
+  },
+};
+
+describe("RPCHandlerRegistry", () => {
+  let registry: RPCHandlerRegistry;
+
+  beforeEach(() => {
+    registry = new RPCHandlerRegistry(registryConfig);
+  });
+
+  it("should create handlers lazily", () => {
+    expect(registry.hasHandler("100")).toBe(false);
+
+    const handler = registry.getHandler("100");
+
+    expect(handler).toBeInstanceOf(RPCHandler);
+    expect(handler.getNetworkId()).toBe("100");
+    expect(registry.getNetworkIds()).toEqual(["100"]);
+  });
+
+  it("should return the same handler for a network", () => {
+    expect(registry.getHandler("100")).toBe(registry.getHandler("100"));
+  });
+
+  it("should keep a separate handler per network", () => {
+    const gnosis = registry.getHandler("100");
+    const mainnet = registry.getHandler("1");
+
+    expect(gnosis).not.toBe(mainnet);
+    expect(mainnet.getNetworkId()).toBe("1");
+  });
+
+  it("should share one logger between handlers", () => {
+    const gnosis = registry.getHandler("100");
+    const mainnet = registry.getHandler("1");
+
+    expect(gnosis.proxySettings.logger).toBeInstanceOf(PrettyLogs);
+    expect(gnosis.proxySettings.logger).toBe(mainnet.proxySettings.logger);
+  });
+
+  it("should apply network specific config", () => {
+    registry.register("100", { rpcTimeout: 1500, proxySettings: { ...registryConfig.proxySettings, retryCount: 5 } });
+
+    const gnosis = registry.getHandler("100");
+    const mainnet = registry.getHandler("1");
+
+    expect(gnosis["_rpcTimeout"]).toBe(1500);
+    expect(gnosis.proxySettings.retryCount).toBe(5);
+    expect(mainnet["_rpcTimeout"]).toBe(600);
+  });
+
+  it("should dispose handlers one at a time", async () => {
+    const gnosis = registry.getHandler("100");
+    registry.getHandler("1");
+    const destroy = jest.spyOn(gnosis, "destroy");
+
+    await registry.dispose("100");
+
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(registry.getNetworkIds()).toEqual(["1"]);
+    expect(registry.getHandler("100")).not.toBe(gnosis);
+  });
+
+  it("should dispose every handler", async () => {
+    const destroys = [registry.getHandler("100"), registry.getHandler("1")].map((handler) => jest.spyOn(handler, "destroy"));
+
+    await registry.disposeAll();
+
+    expect(registry.getNetworkIds()).toEqual([]);
+    destroys.forEach((destroy) => expect(destroy).toHaveBeenCalledTimes(1));
+  });
+
+  it("should close the connections and timers of destroyed handlers", async () => {
+    const handler = registry.getHandler("100");
+    const webSocketProvider = { destroy: jest.fn(() => Promise.resolve()) };
+    const tabCoordinator = { close: jest.fn() };
+    const monitor = new HealthMonitor(handler, { interval: 60_000 });
+    handler["_webSocketProviders"] = { "wss://gnosis.rpc": webSocketProvider as unknown as WebSocketProvider };
+    handler["_tabCoordinator"] = tabCoordinator as unknown as TabCoordinator;
+    monitor.start();
+
+    await registry.dispose("100");
+
+    expect(webSocketProvider.destroy).toHaveBeenCalledTimes(1);
+    expect(tabCoordinator.close).toHaveBeenCalledTimes(1);
+    expect(monitor.isRunning()).toBe(false);
+  });
+
+  it("should race every network in parallel", async () => {
+    const gnosis = registry.getHandler("100");
+    const mainnet = registry.getHandler("1");
+    const gnosisProvider = jest.spyOn(gnosis, "getFastestRpcProvider").mockResolvedValue({} as JsonRpcProvider);
+    const mainnetProvider = jest.spyOn(mainnet, "getFastestRpcProvider").mockRejectedValue(new Error("No RPCs available"));
+
+    const providers = await registry.raceAll();
+
+    expect(gnosisProvider).toHaveBeenCalledTimes(1);
+    expect(mainnetProvider).toHaveBeenCalledTimes(1);
+    expect(Object.keys(providers)).toEqual(["100"]);
+  });
+});
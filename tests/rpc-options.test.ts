@@ -0,0 +1,44 @@
+import { getAuthorizationHeader, getRpcRequestOptions, getRpcSecrets } from "../types/rpc-options";
+
+describe("RPC request options", () => {
+  it("should build bearer and basic authorization headers", () => {
+    expect(getAuthorizationHeader({ token: "secret" })).toBe("Bearer secret");
+    expect(getAuthorizationHeader({ username: "admin", password: "secret" })).toBe(`Basic ${Buffer.from("admin:secret").toString("base64")}`);
+    expect(getAuthorizationHeader({ username: "admin", password: "café" })).toBe(`Basic ${Buffer.from("admin:café").toString("base64")}`);
+  });
+
+  it("should key the headers and timeout of each RPC by URL", () => {
+    const options = getRpcRequestOptions([
+      { url: "https://public.rpc" },
+      { url: "https://keyed.rpc", headers: { "x-api-key": "key" }, timeout: 5000 },
+      { url: "https://auth.rpc", auth: { token: "secret" } },
+    ]);
+
+    expect(options).toEqual({
+      "https://keyed.rpc": { headers: { "x-api-key": "key" }, timeout: 5000 },
+      "https://auth.rpc": { headers: { Authorization: "Bearer secret" }, timeout: undefined },
+    });
+  });
+
+  it("should let explicit headers override auth", () => {
+    const options = getRpcRequestOptions([{ url: "https://auth.rpc", auth: { token: "secret" }, headers: { Authorization: "Token other" } }]);
+    expect(options["https://auth.rpc"].headers).toEqual({ Authorization: "Token other" });
+  });
+
+  it("should collect the credentials and header values of every RPC", () => {
+    const secrets = getRpcSecrets([
+      { url: "https://public.rpc" },
+      { url: "https://bearer.rpc", auth: { token: "token" }, headers: { "x-api-key": "first" } },
+      { url: "https://basic.rpc", auth: { username: "admin", password: "password" }, headers: { "x-api-key": "second" } },
+    ]);
+
+    expect(secrets).toEqual({
+      token: "token",
+      password: "password",
+      Authorization: "Bearer token",
+      Authorization_2: `Basic ${Buffer.from("admin:password").toString("base64")}`,
+      "x-api-key": "first",
+      "x-api-key_2": "second",
+    });
+  });
+});
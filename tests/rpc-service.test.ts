@@ -0,0 +1,258 @@
+import axios from "axios";
+import { RPCService } from "../types/rpc-service";
+
+jest.mock("axios", () => ({
+  ...jest.requireActual("axios"),
+  create: jest.fn(),
+}));
+
+const mockedCreate = axios.create as jest.Mock;
+
+function blockResponse(blockNumber: number) {
+  return {
+    data: {
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        number: `0x${blockNumber.toString(16)}`,
+        timestamp: "0x6650f0d3",
+        hash: `0x${"ab".repeat(32)}`,
+      },
+    },
+  };
+}
+
+function mockResponses(responses: Record<string, unknown>) {
+  mockedCreate.mockImplementation(() => ({
+    post: jest.fn((rpcUrl: string) => Promise.resolve(responses[rpcUrl])),
+  }));
+}
+
+describe("RPCService", () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("testRpcPerformance", () => {
+    const rpcs = ["https://head.rpc", "https://near.rpc", "https://lagging.rpc"];
+
+    beforeEach(() => {
+      mockResponses({
+        "https://head.rpc": blockResponse(1000),
+        "https://near.rpc": blockResponse(998),
+        "https://lagging.rpc": blockResponse(800),
+      });
+    });
+
+    it("should keep every responder when maxBlockLag is not set", async () => {
+      const { latencies, runtimeRpcs } = await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, 1000);
+
+      expect(Object.keys(latencies)).toEqual(expect.arrayContaining(rpcs.map((rpc) => `1__${rpc}`)));
+      expect(runtimeRpcs).toEqual(rpcs);
+    });
+
+    it("should drop RPCs lagging behind the observed chain head", async () => {
+      const { latencies, runtimeRpcs } = await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, 1000, 5);
+
+      expect(Object.keys(latencies).sort()).toEqual(["1__https://head.rpc", "1__https://near.rpc"]);
+      expect(runtimeRpcs).toEqual(["https://head.rpc", "https://near.rpc"]);
+    });
+
+    it("should record lagging RPCs as failures", async () => {
+      const { failures } = await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, 1000, 5);
+
+      expect(failures).toEqual({ "1__https://lagging.rpc": "lagging" });
+    });
+
+    it("should not let a single bogus height mark every other RPC as lagging", async () => {
+      mockResponses({
+        "https://head.rpc": blockResponse(1000),
+        "https://near.rpc": blockResponse(998),
+        "https://lagging.rpc": blockResponse(5_000_000),
+      });
+
+      const { failures } = await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, 1000, 5);
+
+      expect(failures).toEqual({});
+    });
+
+    it("should only measure the chain head from the given RPCs", () => {
+      const latencies = { "1__https://a.rpc": 10, "1__https://b.rpc": 20, "1__https://c.rpc": 30 };
+      const runtimeRpcs = ["https://a.rpc", "https://b.rpc", "https://c.rpc"];
+      const failures = {};
+      const blockHeights = { "https://a.rpc": 1000, "https://b.rpc": 999, "https://c.rpc": 9000 };
+
+      RPCService._dropLaggingRpcs("1", latencies, runtimeRpcs, failures, blockHeights, 5, ["https://a.rpc", "https://b.rpc"]);
+
+      expect(failures).toEqual({});
+      expect(runtimeRpcs).toEqual(["https://a.rpc", "https://b.rpc", "https://c.rpc"]);
+    });
+
+    it("should clamp timeouts which axios would overflow", async () => {
+      await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, Number.MAX_SAFE_INTEGER);
+
+      expect(mockedCreate).toHaveBeenCalledWith({ timeout: 2 ** 31 - 1, headers: {} });
+    });
+
+    it("should send the headers and timeout of each RPC", async () => {
+      const rpcHeader = { "Content-Type": "application/json" };
+      await RPCService.testRpcPerformance("1", {}, [...rpcs], rpcHeader, 1000, null, {
+        "https://near.rpc": { headers: { Authorization: "Bearer secret" }, timeout: 3000 },
+      });
+
+      expect(mockedCreate).toHaveBeenCalledWith({ timeout: 1000, headers: rpcHeader });
+      expect(mockedCreate).toHaveBeenCalledWith({ timeout: 3000, headers: { ...rpcHeader, Authorization: "Bearer secret" } });
+    });
+  });
+
+  describe("response validation", () => {
+    const rpcs = ["https://valid.rpc", "https://captcha.rpc", "https://error.rpc", "https://bad-block.rpc"];
+
+    beforeEach(() => {
+      mockResponses({
+        "https://valid.rpc": blockResponse(1000),
+        "https://captcha.rpc": { data: "<html><body>Are you a robot?</body></html>" },
+        "https://error.rpc": { data: { jsonrpc: "2.0", id: 1, error: { code: -32603, message: "internal error" } } },
+        "https://bad-block.rpc": { data: { jsonrpc: "2.0", id: 1, result: null } },
+      });
+    });
+
+    it("should record a reason for every invalid response", async () => {
+      const { failures } = await RPCService.testRpcPerformance("1", {}, [...rpcs], {}, 1000);
+
+      expect(failures).toEqual({
+        "1__https://captcha.rpc": "invalid-json",
+        "1__https://error.rpc": "rpc-error",
+        "1__https://bad-block.rpc": "bad-block",
+      });
+    });
+
+    it("should keep invalid responders out of the latencies", async () => {
+      const staleLatencies = { "1__https://captcha.rpc": 5 };
+      const { latencies, runtimeRpcs } = await RPCService.testRpcPerformance("1", staleLatencies, [...rpcs], {}, 1000);
+
+      expect(Object.keys(latencies)).toEqual(["1__https://valid.rpc"]);
+      expect(runtimeRpcs).toEqual(["https://valid.rpc"]);
+    });
+  });
+
+  describe("rate limits", () => {
+    it("should record rate-limited RPCs with their Retry-After", async () => {
+      const tooManyRequests = Object.assign(new Error("Request failed with status code 429"), { response: { status: 429, headers: { "retry-after": "12" } } });
+      mockedCreate.mockImplementation(() => ({
+        post: jest.fn((rpcUrl: string) => {
+          if (rpcUrl === "https://throttled.rpc") return Promise.reject(tooManyRequests);
+          if (rpcUrl === "https://limit.rpc")
+            return Promise.resolve({ data: { jsonrpc: "2.0", id: 1, error: { code: -32005, message: "rate limit exceeded" } } });
+          return Promise.resolve(blockResponse(1000));
+        }),
+      }));
+
+      const { failures, retryAfter } = await RPCService.testRpcPerformance("1", {}, ["https://ok.rpc", "https://throttled.rpc", "https://limit.rpc"], {}, 1000);
+
+      expect(failures).toEqual({ "1__https://throttled.rpc": "rate-limited", "1__https://limit.rpc": "rate-limited" });
+      expect(retryAfter).toEqual({ "1__https://throttled.rpc": 12_000 });
+    });
+  });
+
+  describe("findFastestRpc", () => {
+    const latencies = { "1__https://lucky.rpc": 10, "1__https://steady.rpc": 60 };
+    const samples = (values: number[], ewma: number) => ({
+      samples: values,
+      ewma,
+      p50: ewma,
+      p95: ewma,
+      successes: 3,
+      failures: 0,
+      successRate: 1,
+      lastSeen: 0,
+    });
+    const latencyStats = { "1__https://lucky.rpc": samples([900, 950, 10], 600), "1__https://steady.rpc": samples([50, 55, 60], 55) };
+
+    it("should rank on the latest sample by default", async () => {
+      await expect(RPCService.findFastestRpc(latencies, "1", latencyStats)).resolves.toBe("https://lucky.rpc");
+    });
+
+    it("should rank on the given statistic", async () => {
+      await expect(RPCService.findFastestRpc(latencies, "1", latencyStats, "ewma")).resolves.toBe("https://steady.rpc");
+    });
+
+    it("should return null without latencies for the network", async () => {
+      jest.spyOn(console, "error").mockImplementationOnce(() => undefined);
+      await expect(RPCService.findFastestRpc(latencies, "100")).resolves.toBeNull();
+    });
+  });
+
+  describe("call", () => {
+    beforeEach(() => {
+      mockResponses({
+        "https://ok.rpc": { data: { jsonrpc: "2.0", id: 1, result: "0x10" } },
+        "https://error.rpc": { data: { jsonrpc: "2.0", id: 1, error: { code: -32601, message: "Method not found" } } },
+        "https://captcha.rpc": { data: "<html></html>" },
+      });
+    });
+
+    it("should return the result", async () => {
+      await expect(RPCService.call("https://ok.rpc", "eth_blockNumber", [], 1000, {})).resolves.toBe("0x10");
+    });
+
+    it("should throw JSON-RPC errors as they are", async () => {
+      await expect(RPCService.call("https://error.rpc", "trace_block", ["latest"], 1000, {})).rejects.toMatchObject({
+        name: "JsonRpcRequestError",
+        code: -32601,
+      });
+    });
+
+    it("should throw on an invalid response", async () => {
+      await expect(RPCService.call("https://captcha.rpc", "eth_blockNumber", [], 1000, {})).rejects.toThrow("Invalid JSON-RPC response");
+    });
+  });
+
+  describe("callBatch", () => {
+    const requests = [{ method: "eth_blockNumber" }, { method: "eth_chainId" }];
+
+    it("should send the requests as one batch", async () => {
+      const post = jest.fn(() =>
+        Promise.resolve({
+          data: [
+            { jsonrpc: "2.0", id: 1, result: "0x64" },
+            { jsonrpc: "2.0", id: 0, result: "0x10" },
+          ],
+        })
+      );
+      mockedCreate.mockImplementation(() => ({ post }));
+
+      await expect(RPCService.callBatch("https://ok.rpc", requests, 1000, {})).resolves.toEqual([{ result: "0x10" }, { result: "0x64" }]);
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw a BatchNotSupportedError if the RPC rejects batches", async () => {
+      const payloadTooLarge = Object.assign(new Error("Request failed with status code 413"), { response: { status: 413, headers: {} } });
+      mockedCreate.mockImplementation(() => ({ post: jest.fn(() => Promise.reject(payloadTooLarge)) }));
+
+      await expect(RPCService.callBatch("https://single.rpc", requests, 1000, {})).rejects.toMatchObject({ name: "BatchNotSupportedError" });
+    });
+  });
+
+  describe("getChainId", () => {
+    beforeEach(() => {
+      mockResponses({
+        "https://gnosis.rpc": { data: { jsonrpc: "2.0", id: 1, result: "0x64" } },
+        "https://captcha.rpc": { data: "<html></html>" },
+      });
+    });
+
+    it("should return the chain ID reported by the RPC", async () => {
+      await expect(RPCService.getChainId("https://gnosis.rpc", 1000, {})).resolves.toBe(100);
+    });
+
+    it("should return null for an invalid response", async () => {
+      await expect(RPCService.getChainId("https://captcha.rpc", 1000, {})).resolves.toBeNull();
+    });
+
+    it("should return null if the request fails", async () => {
+      mockedCreate.mockImplementation(() => ({ post: jest.fn(() => Promise.reject(new Error("ECONNREFUSED"))) }));
+      await expect(RPCService.getChainId("https://down.rpc", 1000, {})).resolves.toBeNull();
+    });
+  });
+});
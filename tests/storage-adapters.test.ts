@@ -0,0 +1,184 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { JsonFileStorageAdapter, LocalStorageAdapter, MemoryStorageAdapter } from "../types/storage-adapters";
+import { StorageService } from "../types/storage-service";
+
+describe("Storage adapters", () => {
+  describe("MemoryStorageAdapter", () => {
+    it("should return what was stored", async () => {
+      const storage = new MemoryStorageAdapter();
+      await storage.setItem("key", "value");
+
+      await expect(storage.getItem("key")).resolves.toBe("value");
+      await expect(storage.getItem("missing")).resolves.toBeNull();
+    });
+  });
+
+  describe("LocalStorageAdapter", () => {
+    it("should do nothing where localStorage is not defined", async () => {
+      const storage = new LocalStorageAdapter();
+      await storage.setItem("key", "value");
+
+      await expect(storage.getItem("key")).resolves.toBeNull();
+    });
+  });
+
+  describe("JsonFileStorageAdapter", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "rpc-handler-"));
+      filePath = path.join(dir, "storage.json");
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should keep items across instances", async () => {
+      await new JsonFileStorageAdapter(filePath).setItem("key", "value");
+
+      await expect(new JsonFileStorageAdapter(filePath).getItem("key")).resolves.toBe("value");
+    });
+
+    it("should not lose concurrent writes", async () => {
+      const storage = new JsonFileStorageAdapter(filePath);
+      await Promise.all([storage.setItem("a", "1"), storage.setItem("b", "2")]);
+
+      expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({ a: "1", b: "2" });
+    });
+
+    it("should keep writing after a failed write", async () => {
+      const nestedPath = path.join(dir, "nested", "storage.json");
+      const storage = new JsonFileStorageAdapter(nestedPath);
+
+      await expect(storage.setItem("a", "1")).rejects.toThrow("ENOENT");
+      await mkdir(path.join(dir, "nested"));
+      await storage.setItem("b", "2");
+
+      expect(JSON.parse(await readFile(nestedPath, "utf8"))).toEqual({ a: "1", b: "2" });
+    });
+
+    it("should start fresh from a corrupt file", async () => {
+      await writeFile(filePath, "{not json");
+
+      await expect(new JsonFileStorageAdapter(filePath).getItem("key")).resolves.toBeNull();
+    });
+  });
+});
+
+describe("StorageService", () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = Date.now();
+  const results = (latencies: Record<string, number>) => ({ latencies, latencyStats: {}, refreshLatencies: 2 });
+
+  it("should keep every network under its own key", async () => {
+    const storage = new MemoryStorageAdapter();
+    await StorageService.setRaceResults(storage, "1", results({ "1__https://mainnet.rpc": 50 }), now);
+    await StorageService.setRaceResults(storage, "100", results({ "100__https://gnosis.rpc": 80 }), now);
+
+    await expect(StorageService.getRaceResults(storage, "1", HOUR, now)).resolves.toEqual(results({ "1__https://mainnet.rpc": 50 }));
+    await expect(StorageService.getRaceResults(storage, "100", HOUR, now)).resolves.toEqual(results({ "100__https://gnosis.rpc": 80 }));
+  });
+
+  it("should not overwrite entries another writer stored after the race", async () => {
+    const storage = new MemoryStorageAdapter();
+    const stats = (lastSeen: number) => ({ samples: [1], ewma: 1, p50: 1, p95: 1, successes: 1, failures: 0, successRate: 1, lastSeen });
+
+    // another tab raced more recently
+    await StorageService.setRaceResults(
+      storage,
+      "1",
+      { ...results({ "1__https://a.rpc": 10, "1__https://b.rpc": 20 }), latencyStats: { "1__https://b.rpc": stats(now) } },
+      now
+    );
+    await StorageService.setRaceResults(storage, "1", { ...results({ "1__https://a.rpc": 30 }), latencyStats: { "1__https://a.rpc": stats(now - 1000) } }, now);
+
+    const { latencies } = await StorageService.getRaceResults(storage, "1", HOUR, now);
+    expect(latencies).toEqual({ "1__https://a.rpc": 10, "1__https://b.rpc": 20 });
+  });
+
+  it("should ignore entries older than maxAge", async () => {
+    const storage = new MemoryStorageAdapter();
+    await StorageService.setRaceResults(storage, "1", results({ "1__https://mainnet.rpc": 50 }), now - 2 * HOUR);
+
+    await expect(StorageService.getRaceResults(storage, "1", HOUR, now)).resolves.toEqual({ latencies: {}, latencyStats: {}, refreshLatencies: 0 });
+  });
+
+  it("should migrate results stored by 1.x", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem("rpcLatencies", JSON.stringify({ "1__https://mainnet.rpc": 50, "100__https://gnosis.rpc": 80 }));
+    await storage.setItem("refreshLatencies", JSON.stringify(2));
+
+    await expect(StorageService.getRaceResults(storage, "100", HOUR, now)).resolves.toEqual(results({ "100__https://gnosis.rpc": 80 }));
+    expect(JSON.parse((await storage.getItem(StorageService.getCacheKey("100"))) as string)).toEqual({
+      version: 2,
+      networkId: "100",
+      refreshLatencies: 2,
+      entries: { "https://gnosis.rpc": { latency: 80, updatedAt: now } },
+    });
+    // other networks are migrated when they are loaded
+    await expect(storage.getItem(StorageService.getCacheKey("1"))).resolves.toBeNull();
+  });
+
+  it("should ignore unknown versions and invalid values", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem(StorageService.getCacheKey("1"), JSON.stringify({ version: 3, entries: {} }));
+    await storage.setItem(StorageService.getCacheKey("100"), "<html>");
+
+    await expect(StorageService.getRaceResults(storage, "1", HOUR, now)).resolves.toEqual({ latencies: {}, latencyStats: {}, refreshLatencies: 0 });
+    await expect(StorageService.getRaceResults(storage, "100", HOUR, now)).resolves.toEqual({ latencies: {}, latencyStats: {}, refreshLatencies: 0 });
+  });
+});
+
+describe("StorageService 1.x API", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+
+    Object.defineProperty(global, "localStorage", {
+      value: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        key: (index: number) => [...items.keys()][index] ?? null,
+        get length() {
+          return items.size;
+        },
+      },
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    // @ts-expect-error globalThis
+    delete global.localStorage;
+  });
+
+  it("should store the latencies of each network where the handler loads them", async () => {
+    StorageService.setLatencies("browser", { "1__https://mainnet.rpc": 50, "100__https://gnosis.rpc": 80 });
+    StorageService.setRefreshLatencies("browser", 3);
+
+    expect(StorageService.getLatencies("browser", "100")).toEqual({ "100__https://gnosis.rpc": 80 });
+    expect(StorageService.getRefreshLatencies("browser")).toBe(3);
+    await expect(StorageService.getRaceResults(new LocalStorageAdapter(), "1")).resolves.toEqual({
+      latencies: { "1__https://mainnet.rpc": 50 },
+      latencyStats: {},
+      refreshLatencies: 3,
+    });
+  });
+
+  it("should read the results stored by the handler", async () => {
+    await StorageService.setRaceResults(new LocalStorageAdapter(), "1", { latencies: { "1__https://mainnet.rpc": 50 }, latencyStats: {}, refreshLatencies: 2 });
+
+    expect(StorageService.getLatencies("browser", "1")).toEqual({ "1__https://mainnet.rpc": 50 });
+    expect(StorageService.getRefreshLatencies("browser")).toBe(2);
+  });
+
+  it("should do nothing outside the browser", () => {
+    StorageService.setLatencies("node", { "1__https://mainnet.rpc": 50 });
+
+    expect(StorageService.getLatencies("node", "1")).toEqual({});
+    expect(localStorage.length).toBe(0);
+  });
+});
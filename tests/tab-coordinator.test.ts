@@ -0,0 +1,95 @@
+import { SharedRaceResults, TabCoordinator } from "../types/tab-coordinator";
+
+const results = { latencies: { "1__https://fast.rpc": 50 }, latencyStats: {}, rpcUrl: "https://fast.rpc" };
+
+function mockLocalStorage() {
+  const items = new Map<string, string>();
+
+  Object.defineProperty(global, "localStorage", {
+    value: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    },
+    configurable: true,
+  });
+}
+
+describe("TabCoordinator", () => {
+  let leader: TabCoordinator;
+  let follower: TabCoordinator;
+  let received: SharedRaceResults[];
+
+  beforeEach(() => {
+    mockLocalStorage();
+    received = [];
+    leader = new TabCoordinator("1", () => undefined, 1000);
+    follower = new TabCoordinator("1", (shared) => received.push(shared), 1000);
+  });
+
+  afterEach(() => {
+    leader.close();
+    follower.close();
+    // @ts-expect-error globalThis
+    delete global.localStorage;
+  });
+
+  it("should let a single tab hold the lease", async () => {
+    await expect(leader.acquireLease()).resolves.toBe(true);
+    await expect(follower.acquireLease()).resolves.toBe(false);
+    // the leader renews its own lease
+    await expect(leader.acquireLease()).resolves.toBe(true);
+  });
+
+  it("should hand the lease over once it expires", async () => {
+    const now = Date.now();
+    await expect(leader.acquireLease(now)).resolves.toBe(true);
+
+    await expect(follower.acquireLease(now + 1001)).resolves.toBe(true);
+    await expect(leader.acquireLease(now + 1002)).resolves.toBe(false);
+  });
+
+  it("should take the lease under a Web Lock where supported", async () => {
+    let queue = Promise.resolve();
+    const request = jest.fn((name: string, callback: () => boolean) => {
+      const granted = queue.then(callback);
+      queue = granted.then(() => undefined);
+      return granted;
+    });
+    Object.defineProperty(global, "navigator", { value: { locks: { request } }, configurable: true });
+
+    try {
+      const leases = await Promise.all([leader.acquireLease(), follower.acquireLease()]);
+
+      expect(leases).toEqual([true, false]);
+      expect(request).toHaveBeenCalledWith(leader.leaseKey, expect.any(Function));
+    } finally {
+      // @ts-expect-error globalThis
+      delete global.navigator;
+    }
+  });
+
+  it("should deliver the leader's results to waiting tabs", async () => {
+    await leader.acquireLease();
+    const isShared = follower.waitForResults();
+    leader.publish(results);
+
+    await expect(isShared).resolves.toBe(true);
+    expect(received).toEqual([expect.objectContaining(results)]);
+  });
+
+  it("should reuse results published before the tab asked", async () => {
+    await leader.acquireLease();
+    leader.publish(results, Date.now() + 1);
+
+    await expect(follower.waitForResults()).resolves.toBe(true);
+    expect(received).toHaveLength(1);
+  });
+
+  it("should stop waiting once the lease expires", async () => {
+    const now = Date.now();
+    await leader.acquireLease(now - 900);
+
+    await expect(follower.waitForResults(now)).resolves.toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,117 @@
+import { WebSocket } from "@ethersproject/providers/lib/ws";
+import esbuild from "esbuild";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import packageJson from "../package.json";
+import { RPCService } from "../types/rpc-service";
+import { createWebSocketProvider, isWebSocketUrl, webSocketRequest } from "../types/websocket";
+
+type MockSocket = { send(data: string): void; close(): void; on(event: string, listener: (data: string) => void): void };
+
+const block = { number: "0x3e8", timestamp: "0x6650f0d3", hash: `0x${"ab".repeat(32)}` };
+
+function startServer(onRequest: (socket: MockSocket, request: { id: number; method: string }) => void): Promise<{ url: string; close(): Promise<void> }> {
+  return new Promise((resolve) => {
+    const server = new WebSocket.Server({ port: 0 }, () => {
+      resolve({
+        url: `ws://127.0.0.1:${server.address().port}`,
+        close: () =>
+          new Promise<void>((done) => {
+            server.clients.forEach((client: MockSocket) => client.close());
+            server.close(() => done());
+          }),
+      });
+    });
+
+    server.on("connection", (socket: MockSocket) => {
+      socket.on("message", (data: string) => onRequest(socket, JSON.parse(String(data))));
+    });
+  });
+}
+
+describe("WebSocket RPCs", () => {
+  let server: { url: string; close(): Promise<void> };
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it("should only treat ws:// and wss:// URLs as WebSocket RPCs", () => {
+    expect(isWebSocketUrl("wss://eth.drpc.org")).toBe(true);
+    expect(isWebSocketUrl("ws://127.0.0.1:8545")).toBe(true);
+    expect(isWebSocketUrl("https://eth.drpc.org")).toBe(false);
+  });
+
+  it("should race a WebSocket RPC over a handshake and a JSON-RPC call", async () => {
+    server = await startServer((socket, { id }) => socket.send(JSON.stringify({ jsonrpc: "2.0", id, result: block })));
+
+    const result = await RPCService.makeRpcRequest(server.url, 1000, {});
+
+    expect(result).toMatchObject({ rpcUrl: server.url, success: true, blockNumber: 1000 });
+  });
+
+  it("should validate WebSocket responses like HTTP ones", async () => {
+    server = await startServer((socket, { id }) => socket.send(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32005, message: "rate limited" } })));
+
+    await expect(RPCService.makeRpcRequest(server.url, 1000, {})).resolves.toMatchObject({ success: false, reason: "rate-limited" });
+  });
+
+  it("should time out a WebSocket RPC that never answers", async () => {
+    server = await startServer(() => undefined);
+
+    await expect(RPCService.makeRpcRequest(server.url, 50, {})).resolves.toMatchObject({ success: false, reason: "timeout" });
+  });
+
+  it("should fail a WebSocket RPC that can't be reached", async () => {
+    await expect(webSocketRequest("ws://127.0.0.1:1", "{}", 1000)).resolves.toEqual({ error: "WebSocket error", isTimeout: false });
+  });
+
+  it("should read the chain ID over WebSockets", async () => {
+    server = await startServer((socket, { id }) => socket.send(JSON.stringify({ jsonrpc: "2.0", id, result: "0x64" })));
+
+    await expect(RPCService.getChainId(server.url, 1000, {})).resolves.toBe(100);
+  });
+
+  it("should fail pending provider calls once the connection drops", async () => {
+    server = await startServer((socket) => socket.close());
+    const provider = createWebSocketProvider(server.url, 1);
+
+    await expect(provider.send("eth_blockNumber", [])).rejects.toThrow(`WebSocket closed: ${server.url}`);
+  });
+
+  describe("Node builds", () => {
+    it("should resolve every entry of the package to the Node build in Node", () => {
+      for (const entry of Object.values(packageJson.exports)) {
+        if (typeof entry === "string") continue;
+        // the ESM build targets browsers, where ethers uses the global WebSocket Node 20 lacks
+        expect(Object.keys(entry).indexOf("node")).toBeLessThan(Object.keys(entry).indexOf("import"));
+        expect(entry.node).toBe(entry.require);
+      }
+    });
+
+    it("should connect from the Node build", async () => {
+      server = await startServer((socket, { id }) => socket.send(JSON.stringify({ jsonrpc: "2.0", id, result: "0x64" })));
+      const dir = await mkdtemp(path.join(tmpdir(), "rpc-handler-"));
+
+      try {
+        const outfile = path.join(dir, "websocket.js");
+        await esbuild.build({
+          entryPoints: [path.join(__dirname, "../types/websocket.ts")],
+          bundle: true,
+          platform: "node",
+          format: "cjs",
+          outfile,
+          logLevel: "silent",
+        });
+        const bundled: { webSocketRequest: typeof webSocketRequest } = jest.requireActual(outfile);
+
+        await expect(bundled.webSocketRequest(server.url, JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId" }), 1000)).resolves.toMatchObject({
+          data: { result: "0x64" },
+        });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { BatchRequest, BatchResponse } from "./handler";
+import { getRateLimit, toJsonRpcError } from "./error-classifier";
+import { BatchNotSupportedError, JsonRpcRequestError } from "./errors";
+
+// the result, or the error, of each request of a batch sent to one RPC
+export type SettledRequest = { result: unknown } | { error: unknown };
+
+type JsonRpcResponse = { id?: unknown; result?: unknown; error?: { code: number; message: string; data?: unknown } };
+
+export const DEFAULT_BATCH_SIZE = 20;
+
+// HTTP statuses RPCs reject batch bodies with, e.g 413 for batches over their size limit
+const BATCH_REJECTED_STATUSES = [400, 405, 413, 415, 422];
+const BATCH_MESSAGE = /batch/i;
+
+export function toBatchBody(requests: BatchRequest[]): string {
+  // the ids are the indexes of the requests so responses can be matched in any order
+  return JSON.stringify(requests.map(({ method, params }, id) => ({ jsonrpc: "2.0", method, params: params ?? [], id })));
+}
+
+export function chunkBatch<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += Math.max(size, 1)) {
+    chunks.push(items.slice(i, i + Math.max(size, 1)));
+  }
+
+  return chunks;
+}
+
+/**
+ * A BatchNotSupportedError for the HTTP errors RPCs reject batch bodies with, other errors are returned as they are
+ */
+export function toBatchError(rpcUrl: string, error: unknown): unknown {
+  const status = (error as { response?: { status?: number } } | null)?.response?.status;
+  return status !== undefined && BATCH_REJECTED_STATUSES.includes(status) ? new BatchNotSupportedError(rpcUrl, `HTTP ${status}`) : error;
+}
+
+function toSettledRequest(rpcUrl: string, response: JsonRpcResponse | undefined): SettledRequest {
+  if (response?.error) {
+    return { error: new JsonRpcRequestError(response.error) };
+  }
+
+  if (!response || !("result" in response)) {
+    return { error: new Error(`Missing JSON-RPC response from ${rpcUrl}`) };
+  }
+
+  return { result: response.result };
+}
+
+/**
+ * Matches the responses of an RPC to the requests of a batch. A single error in place of the list,
+ * or nothing but errors about batching, means the RPC does not support batches. Unanswered requests fail
+ */
+export function parseBatchResponse(rpcUrl: string, data: unknown, count: number): SettledRequest[] {
+  if (!Array.isArray(data)) {
+    const error = (data as JsonRpcResponse | null)?.error;
+
+    if (!error || typeof error !== "object") {
+      throw new Error(`Invalid JSON-RPC response from ${rpcUrl}`);
+    }
+
+    // a rate limit on the batch as a whole is retried like any other
+    throw getRateLimit(error) ? new JsonRpcRequestError(error) : new BatchNotSupportedError(rpcUrl, error.message);
+  }
+
+  const responses = data.filter((response): response is JsonRpcResponse => !!response && typeof response === "object");
+  const batchErrors = responses.filter(({ error }) => error && BATCH_MESSAGE.test(error.message));
+
+  if (batchErrors.length && batchErrors.length === responses.length) {
+    throw new BatchNotSupportedError(rpcUrl, batchErrors[0].error?.message ?? "");
+  }
+
+  const byId = new Map(responses.map((response) => [response.id, response]));
+  return Array.from({ length: count }, (value, id) => toSettledRequest(rpcUrl, byId.get(id)));
+}
+
+export function toBatchResponse(settled: SettledRequest): BatchResponse {
+  return "error" in settled ? { error: toJsonRpcError(settled.error) } : settled;
+}
@@ -0,0 +1,62 @@
+import { Formatter } from "@ethersproject/providers";
+import { classifyError } from "./error-classifier";
+
+// returned by nodes which already have the transaction in their mempool
+const ALREADY_KNOWN = /already known|known transaction|already imported|transaction already exists|tx already in mempool/i;
+
+const formatter = new Formatter();
+
+export function isBroadcastCall(prop: string, args: unknown[]): boolean {
+  return prop === "sendTransaction" || (prop === "send" && args[0] === "eth_sendRawTransaction");
+}
+
+export function isAlreadyKnownError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+
+  const err = error as { message?: string; body?: string; error?: { message?: string } };
+  return [err.message, err.body, err.error?.message].some((message) => typeof message === "string" && ALREADY_KNOWN.test(message));
+}
+
+export function getTransactionHash(signedTransaction: string): string {
+  return formatter.transaction(signedTransaction).hash as string;
+}
+
+/**
+ * Sends a signed transaction to every RPC in parallel and resolves with its hash
+ * as soon as any of them accepts it, a node which already knows the transaction
+ * counts as accepting it.
+ *
+ * If every RPC rejects it, the first deterministic error (e.g. "nonce too low")
+ * is thrown in preference to transport errors.
+ */
+export function broadcastTransaction(signedTransaction: string, rpcUrls: string[], send: (rpcUrl: string) => Promise<string>): Promise<string> {
+  const hash = getTransactionHash(signedTransaction);
+
+  return new Promise((resolve, reject) => {
+    const errors: unknown[] = [];
+    let pending = rpcUrls.length;
+
+    if (pending === 0) {
+      reject(new Error("No RPCs available to broadcast the transaction"));
+      return;
+    }
+
+    for (const rpcUrl of rpcUrls) {
+      void send(rpcUrl)
+        .then(resolve)
+        .catch((err) => {
+          if (isAlreadyKnownError(err)) {
+            resolve(hash);
+          } else {
+            errors.push(err);
+          }
+        })
+        .finally(() => {
+          pending--;
+          if (pending === 0) {
+            reject(errors.find((err) => classifyError(err) === "deterministic") ?? errors[0]);
+          }
+        });
+    }
+  });
+}
@@ -0,0 +1,128 @@
+import { RpcCapabilities, RpcMethodFamily, RpcRequirements } from "./handler";
+import { JsonRpcRequestError } from "./errors";
+
+type RpcCall = (method: string, params: unknown[]) => Promise<unknown>;
+
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+const METHOD_NOT_FOUND = -32601;
+
+// a supporting RPC answers with null or a "transaction not found" error
+const FAMILY_PROBES: Record<RpcMethodFamily, [string, unknown[]]> = {
+  debug: ["debug_traceTransaction", [ZERO_HASH]],
+  trace: ["trace_transaction", [ZERO_HASH]],
+};
+const ARCHIVE_DEPTHS = [128, 10_000, 1_000_000]; // blocks behind the head, block 1 is probed last
+const LOGS_RANGES = [1_000, 10_000, 100_000]; // blocks
+const UNSUPPORTED_METHOD = /method.*(not (found|supported|available|enabled|allowed)|does not exist)|unsupported method|not whitelisted/i;
+
+function toHex(blockNumber: number): string {
+  return `0x${blockNumber.toString(16)}`;
+}
+
+/**
+ * Only JSON-RPC errors count, a timeout says nothing about the method
+ */
+export function isUnsupportedMethodError(error: unknown): boolean {
+  return error instanceof JsonRpcRequestError && (error.code === METHOD_NOT_FOUND || UNSUPPORTED_METHOD.test(error.message));
+}
+
+async function isCallSuccessful(call: RpcCall, method: string, params: unknown[]): Promise<boolean> {
+  try {
+    await call(method, params);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function probeMethodFamilies(call: RpcCall): Promise<RpcMethodFamily[]> {
+  const families = Object.keys(FAMILY_PROBES) as RpcMethodFamily[];
+  const isSupported = await Promise.all(
+    families.map(async (family) => {
+      const [method, params] = FAMILY_PROBES[family];
+      try {
+        await call(method, params);
+        return true;
+      } catch (err) {
+        return !isUnsupportedMethodError(err);
+      }
+    })
+  );
+
+  return families.filter((family, index) => isSupported[index]);
+}
+
+// the deepest block the state is served for, stopping at the first pruned one
+async function probeArchiveDepth(call: RpcCall, head: number): Promise<number> {
+  const depths = [...ARCHIVE_DEPTHS.filter((depth) => depth < head - 1), head - 1];
+  let archiveDepth = 0;
+
+  for (const depth of depths) {
+    if (!(await isCallSuccessful(call, "eth_getBalance", [ZERO_ADDRESS, toHex(head - depth)]))) break;
+    archiveDepth = depth;
+  }
+
+  return archiveDepth;
+}
+
+async function probeLogsRange(call: RpcCall, head: number): Promise<number> {
+  let maxLogsRange = 0;
+
+  for (const range of LOGS_RANGES) {
+    const filter = { address: ZERO_ADDRESS, fromBlock: toHex(Math.max(head - range + 1, 0)), toBlock: toHex(head) };
+    if (!(await isCallSuccessful(call, "eth_getLogs", [filter]))) break;
+    maxLogsRange = range;
+  }
+
+  return maxLogsRange;
+}
+
+/**
+ * Probes which method families an RPC supports, how far back it serves state
+ * and the widest eth_getLogs block range it accepts. Null if it could not be reached
+ */
+export async function probeRpcCapabilities(call: RpcCall): Promise<RpcCapabilities | null> {
+  let head: number;
+
+  try {
+    head = Number(await call("eth_blockNumber", []));
+  } catch {
+    return null;
+  }
+
+  if (!Number.isSafeInteger(head)) return null;
+
+  const [methodFamilies, archiveDepth, maxLogsRange] = await Promise.all([
+    probeMethodFamilies(call),
+    probeArchiveDepth(call, head),
+    probeLogsRange(call, head),
+  ]);
+
+  return { methodFamilies, archiveDepth, isArchive: head > 1 && archiveDepth === head - 1, maxLogsRange };
+}
+
+// methods of the families only some RPCs support, e.g debug_traceTransaction
+export function isProbedMethod(method: string): boolean {
+  return Object.hasOwn(FAMILY_PROBES, method.split("_")[0]);
+}
+
+/**
+ * RPCs which have not been probed are assumed to support every method
+ */
+export function supportsMethod(capabilities: RpcCapabilities | undefined, method: string): boolean {
+  return !capabilities || !isProbedMethod(method) || capabilities.methodFamilies.includes(method.split("_")[0] as RpcMethodFamily);
+}
+
+export function meetsRequirements(capabilities: RpcCapabilities | undefined, requirements: RpcRequirements): boolean {
+  if (!capabilities) return false;
+
+  const { isArchive, archiveDepth = 0, methodFamilies = [], logsRange = 0 } = requirements;
+
+  return (
+    (!isArchive || capabilities.isArchive) &&
+    capabilities.archiveDepth >= archiveDepth &&
+    methodFamilies.every((family) => capabilities.methodFamilies.includes(family)) &&
+    capabilities.maxLogsRange >= logsRange
+  );
+}
@@ -0,0 +1,62 @@
+import { CircuitBreakerSettings, CircuitState } from "./handler";
+
+type Circuit = {
+  state: CircuitState;
+  failures: number; // consecutive failures while closed
+  openedAt: number;
+};
+
+/**
+ * Tracks the health of each RPC URL so dead endpoints are skipped
+ * instead of being retried on every call until the next race.
+ *
+ * - closed: calls go through, `failureThreshold` consecutive failures open the circuit
+ * - open: calls are skipped until `cooldown` ms have passed
+ * - half-open: calls go through again, the first success closes the circuit and the first failure re-opens it
+ */
+export class CircuitBreaker {
+  private _settings: CircuitBreakerSettings;
+  private _circuits: Record<string, Circuit> = {};
+
+  constructor(settings: CircuitBreakerSettings) {
+    this._settings = settings;
+  }
+
+  isAvailable(rpcUrl: string): boolean {
+    const circuit = this._circuits[rpcUrl];
+    if (!circuit || circuit.state !== "open") return true;
+
+    if (Date.now() - circuit.openedAt >= this._settings.cooldown) {
+      circuit.state = "half-open";
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(rpcUrl: string): void {
+    delete this._circuits[rpcUrl];
+  }
+
+  recordFailure(rpcUrl: string): void {
+    const circuit = this._circuits[rpcUrl] ?? { state: "closed", failures: 0, openedAt: 0 };
+    circuit.failures++;
+
+    if (circuit.state === "half-open" || circuit.failures >= this._settings.failureThreshold) {
+      circuit.state = "open";
+      circuit.openedAt = Date.now();
+    }
+
+    this._circuits[rpcUrl] = circuit;
+  }
+
+  getState(rpcUrl: string): CircuitState {
+    // refreshes an open circuit whose cooldown has passed
+    this.isAvailable(rpcUrl);
+    return this._circuits[rpcUrl]?.state ?? "closed";
+  }
+
+  getStates(): Record<string, CircuitState> {
+    return Object.fromEntries(Object.keys(this._circuits).map((rpcUrl) => [rpcUrl, this.getState(rpcUrl)]));
+  }
+}
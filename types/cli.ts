@@ -0,0 +1,177 @@
+import { parseArgs } from "util";
+import { getNetworkData, networkIds, networkNames } from "./constants";
+import { NetworkId, NetworkName } from "./handler";
+import { RPCHandler } from "./rpc-handler";
+
+export type CliOutput = {
+  log: (line: string) => void; // results, safe to pipe
+  error: (line: string) => void; // usage and errors
+};
+
+const USAGE = `Usage: rpc-racer <command> [options]
+
+Commands:
+  race <network>       race the RPCs of a network and list their latencies and failures
+  fastest <network>    print the URL of the fastest RPC
+  info <network>       print the chain data of a network
+  networks [search]    list the known networks, optionally filtered by ID or name
+
+<network> is a chain ID or name, e.g "100" or "gnosis"
+
+Options:
+  --json               print JSON (race, networks)
+  --timeout <ms>       how long each RPC is given to respond (race, fastest), default 1500
+  -h, --help           show this message`;
+
+const DEFAULT_TIMEOUT = 1500;
+
+type CliOptions = { isJson: boolean; timeout: number };
+
+/**
+ * Runs the `rpc-racer` command-line interface and resolves with its exit code.
+ */
+export async function runCli(argv: string[], output: CliOutput = { log: console.log, error: console.error }): Promise<number> {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: { json: { type: "boolean" }, timeout: { type: "string" }, help: { type: "boolean", short: "h" } },
+    });
+  } catch (err) {
+    output.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const [command, target] = parsed.positionals;
+  const timeout = Number(parsed.values.timeout ?? DEFAULT_TIMEOUT);
+
+  if (parsed.values.help || !command) {
+    output.log(USAGE);
+    return parsed.values.help ? 0 : 1;
+  }
+
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    output.error(`Invalid timeout: ${parsed.values.timeout}`);
+    return 1;
+  }
+
+  const options: CliOptions = { isJson: !!parsed.values.json, timeout };
+
+  if (command === "networks") {
+    return listNetworks(target, options, output);
+  }
+
+  if (!["race", "fastest", "info"].includes(command)) {
+    output.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return 1;
+  }
+
+  return runNetworkCommand(command, target, options, output);
+}
+
+async function runNetworkCommand(command: string, target: string | undefined, options: CliOptions, output: CliOutput) {
+  const networkId = target ? resolveNetworkId(target) : null;
+
+  if (!networkId) {
+    output.error(target ? `Unknown network: ${target}` : `Missing <network>\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (command === "info") {
+    output.log(JSON.stringify(getNetworkData(networkId), null, 2));
+    return 0;
+  }
+
+  return command === "race" ? race(networkId, options, output) : printFastest(networkId, options, output);
+}
+
+// own keys only, "constructor" or "toString" are no networks
+function resolveNetworkId(network: string): NetworkId | null {
+  if (Object.hasOwn(networkIds, network)) {
+    return network as NetworkId;
+  }
+
+  const name = network.toLowerCase();
+  return Object.hasOwn(networkNames, name) ? networkNames[name as NetworkName] : null;
+}
+
+function createHandler(networkId: NetworkId, timeout: number) {
+  return new RPCHandler({
+    networkId,
+    networkName: null,
+    autoStorage: false,
+    cacheRefreshCycles: null,
+    networkRpcs: null,
+    runtimeRpcs: null,
+    rpcTimeout: timeout,
+    proxySettings: {
+      retryCount: 3,
+      retryDelay: 100,
+      logTier: "none",
+      logger: null,
+      strictLogs: true,
+    },
+  });
+}
+
+async function race(networkId: NetworkId, { isJson, timeout }: CliOptions, output: CliOutput) {
+  const handler = createHandler(networkId, timeout);
+  await handler.updateLatencies();
+
+  const latencies = handler.getRankedLatencies().map(([rpc, latency]) => ({ rpcUrl: rpc.split("__")[1], latency }));
+  const failures = Object.fromEntries(Object.entries(handler.getFailures()).map(([rpc, reason]) => [rpc.split("__")[1], reason]));
+
+  if (isJson) {
+    output.log(JSON.stringify({ networkId, networkName: handler.getNetworkName(), latencies, failures }, null, 2));
+  } else {
+    output.log(formatTable([["#", "RPC", "Latency"], ...latencies.map(({ rpcUrl, latency }, i) => [`${i + 1}`, rpcUrl, `${Math.round(latency)}ms`])]));
+
+    if (Object.keys(failures).length) {
+      output.log(`\nFailures\n${formatTable([["RPC", "Reason"], ...Object.entries(failures)])}`);
+    }
+  }
+
+  return latencies.length ? 0 : 1;
+}
+
+async function printFastest(networkId: NetworkId, { timeout }: CliOptions, output: CliOutput) {
+  const handler = createHandler(networkId, timeout);
+
+  try {
+    const provider = await handler.getFastestRpcProvider();
+    output.log(provider.connection.url);
+    return 0;
+  } catch {
+    output.error(`No RPC responded for network ${networkId}`);
+    return 1;
+  }
+}
+
+function listNetworks(search: string | undefined, { isJson }: CliOptions, output: CliOutput) {
+  const query = search?.toLowerCase();
+  const networks = Object.entries(networkIds)
+    .filter(([id, name]) => !query || id === query || name.toLowerCase().includes(query))
+    .map(([id, name]) => ({ id, name }));
+
+  if (!networks.length) {
+    output.error(`No networks match: ${search}`);
+    return 1;
+  }
+
+  output.log(isJson ? JSON.stringify(networks, null, 2) : formatTable([["ID", "Name"], ...networks.map(({ id, name }) => [id, name])]));
+  return 0;
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((header, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
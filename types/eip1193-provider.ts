@@ -0,0 +1,92 @@
+import { classifyError, toJsonRpcError } from "./error-classifier";
+import { JsonRpcRequestError } from "./errors";
+import type { RPCHandler } from "./rpc-handler";
+
+export type Eip1193RequestArguments = {
+  method: string;
+  params?: unknown[] | object;
+};
+
+export type Eip1193Event = "connect" | "disconnect" | "chainChanged" | "accountsChanged" | "message";
+
+type Listener = (...args: unknown[]) => void;
+
+// https://eips.ethereum.org/EIPS/eip-1193#provider-errors
+const UNSUPPORTED_METHOD = 4200;
+const DISCONNECTED = 4900;
+
+// wallet methods a read-only provider can't serve
+const UNSUPPORTED_METHODS = ["eth_requestAccounts", "eth_sign", "personal_sign", "eth_signTypedData_v4", "eth_sendTransaction", "wallet_switchEthereumChain"];
+
+/**
+ * A read-only EIP-1193 provider backed by the handler's fastest RPC and failover proxy.
+ *
+ * "connect" is emitted once a request succeeds and "disconnect" once a request fails on every RPC,
+ * after which the next successful request emits "connect" again.
+ */
+export class Eip1193Provider {
+  private _handler: RPCHandler;
+  private _listeners: Partial<Record<Eip1193Event, Set<Listener>>> = {};
+  private _isConnected = false;
+
+  constructor(handler: RPCHandler) {
+    this._handler = handler;
+  }
+
+  get chainId(): string {
+    return `0x${Number(this._handler.getNetworkId()).toString(16)}`;
+  }
+
+  public async request({ method, params }: Eip1193RequestArguments): Promise<unknown> {
+    if (method === "eth_chainId") return this.chainId;
+    if (method === "eth_accounts") return [];
+
+    if (UNSUPPORTED_METHODS.includes(method)) {
+      throw new JsonRpcRequestError({ code: UNSUPPORTED_METHOD, message: `${method} is not supported by a read-only provider` });
+    }
+
+    try {
+      const result = await this._handler.send(method, Array.isArray(params) ? params : []);
+      this._setConnected(true);
+      return result;
+    } catch (err) {
+      // deterministic errors were answered by an RPC, so the provider is still connected
+      if (classifyError(err) === "transport") {
+        this._setConnected(false);
+      }
+
+      throw new JsonRpcRequestError(toJsonRpcError(err));
+    }
+  }
+
+  public isConnected(): boolean {
+    return this._isConnected;
+  }
+
+  public on(event: Eip1193Event, listener: Listener): this {
+    const listeners = this._listeners[event] ?? new Set();
+    listeners.add(listener);
+    this._listeners[event] = listeners;
+    return this;
+  }
+
+  public removeListener(event: Eip1193Event, listener: Listener): this {
+    this._listeners[event]?.delete(listener);
+    return this;
+  }
+
+  private _emit(event: Eip1193Event, ...args: unknown[]): void {
+    this._listeners[event]?.forEach((listener) => listener(...args));
+  }
+
+  private _setConnected(isConnected: boolean): void {
+    if (this._isConnected === isConnected) return;
+    this._isConnected = isConnected;
+
+    if (isConnected) {
+      this._emit("connect", { chainId: this.chainId });
+    } else {
+      this._emit("disconnect", new JsonRpcRequestError({ code: DISCONNECTED, message: "Every RPC failed to serve the request" }));
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * - transport: the RPC could not serve the call (timeouts, 5xx, 429, dropped connections, pruned state)
+ *   and another RPC may well succeed, these are retried
+ * - deterministic: every RPC will return the same error (reverts, insufficient funds, invalid arguments)
+ *   so they are rethrown immediately
+ */
+export type ErrorClass = "transport" | "deterministic";
+
+type ProviderError = {
+  code?: string | number;
+  status?: number;
+  headers?: Record<string, unknown>;
+  response?: { status?: number; headers?: Record<string, unknown> }; // axios
+  message?: string;
+  reason?: string;
+  body?: string;
+  data?: unknown;
+  error?: ProviderError;
+};
+
+// JSON-RPC internal error
+const INTERNAL_ERROR = -32603;
+
+// ethers v5 error codes which no other RPC would answer differently
+const DETERMINISTIC_ETHERS_CODES = [
+  "CALL_EXCEPTION",
+  "INSUFFICIENT_FUNDS",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "UNPREDICTABLE_GAS_LIMIT",
+  "TRANSACTION_REPLACED",
+  "ACTION_REJECTED",
+  "INVALID_ARGUMENT",
+  "MISSING_ARGUMENT",
+  "UNEXPECTED_ARGUMENT",
+  "NUMERIC_FAULT",
+];
+
+// JSON-RPC error codes: invalid request, invalid params and execution reverted
+const DETERMINISTIC_RPC_CODES = [-32600, -32602, 3];
+
+// eth_getLogs limits of one RPC, e.g Alchemy answers -32602 for ranges other RPCs serve
+const RPC_LIMIT_MESSAGE = /block range|range (is )?too (large|wide)|response size|returned more than|(max|maximum) results|too many (results|blocks|logs)/i;
+
+const DETERMINISTIC_MESSAGE =
+  /execution reverted|revert|insufficient funds|nonce too low|nonce has already been used|already known|replacement transaction underpriced|intrinsic gas too low|gas required exceeds allowance|exceeds block gas limit|invalid argument|invalid params|invalid type|invalid signature|invalid sender/i;
+
+export function classifyError(error: unknown): ErrorClass {
+  if (!error || typeof error !== "object") return "transport";
+
+  const err = error as ProviderError;
+
+  if (typeof err.code === "string" && DETERMINISTIC_ETHERS_CODES.includes(err.code)) {
+    return "deterministic";
+  }
+
+  // HTTP errors say nothing about the call itself
+  if (typeof err.status === "number" && (err.status >= 500 || err.status === 429)) {
+    return "transport";
+  }
+
+  const messages = [err.message, err.reason, err.error?.message, err.body].filter((message) => typeof message === "string").join(" ");
+
+  if (RPC_LIMIT_MESSAGE.test(messages)) {
+    return "transport";
+  }
+
+  // ethers nests the JSON-RPC error returned by the RPC, batch responses and the adapters do not
+  const rpcError = typeof err.error?.code === "number" ? err.error : err;
+  if (typeof rpcError.code === "number" && DETERMINISTIC_RPC_CODES.includes(rpcError.code)) {
+    return "deterministic";
+  }
+
+  return DETERMINISTIC_MESSAGE.test(messages) ? "deterministic" : "transport";
+}
+
+/**
+ * Extracts the JSON-RPC error an RPC returned from the ethers v5 error wrapping it,
+ * errors that never reached an RPC become internal errors
+ */
+export function toJsonRpcError(error: unknown): { code: number; message: string; data?: unknown } {
+  const err = (error && typeof error === "object" ? error : { message: String(error) }) as ProviderError;
+  const rpcError = typeof err.error?.code === "number" ? err.error : err;
+
+  if (typeof rpcError.code === "number") {
+    return { code: rpcError.code, message: rpcError.message ?? "Unknown error", data: rpcError.data };
+  }
+
+  return { code: INTERNAL_ERROR, message: err.reason ?? err.message ?? "Unknown error", data: err.data };
+}
+
+// JSON-RPC "limit exceeded" (EIP-1474) and the codes providers throttle with
+const RATE_LIMIT_RPC_CODES = [-32005, -32029, 429];
+
+const RATE_LIMIT_MESSAGE = /rate.?limit|too many requests|exceeded .*(capacity|quota|requests per second)|request limit/i;
+
+// -32005 also caps query sizes, e.g eth_getLogs returning too many results
+const QUERY_LIMIT_MESSAGE = /returned more than|block range|response size/i;
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (String(value).trim() !== "" && Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * An HTTP 429 or a JSON-RPC rate-limit error, with the Retry-After the RPC sent if any.
+ * Null for any other error
+ */
+export function getRateLimit(error: unknown, now = Date.now()): { retryAfter: number | null } | null {
+  if (!error || typeof error !== "object") return null;
+
+  const err = error as ProviderError;
+  const status = err.status ?? err.response?.status;
+  const rpcError = typeof err.error?.code === "number" ? err.error : err;
+  const messages = [err.message, rpcError.message, err.body].filter((message) => typeof message === "string").join(" ");
+
+  const isRateLimited =
+    status === 429 ||
+    RATE_LIMIT_MESSAGE.test(messages) ||
+    (typeof rpcError.code === "number" && RATE_LIMIT_RPC_CODES.includes(rpcError.code) && !QUERY_LIMIT_MESSAGE.test(messages));
+
+  if (!isRateLimited) return null;
+
+  const headers = err.headers ?? err.response?.headers;
+  return { retryAfter: parseRetryAfter(headers?.["retry-after"], now) };
+}
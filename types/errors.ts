@@ -0,0 +1,63 @@
+/**
+ * Thrown in quorum mode when not enough of the fastest RPCs
+ * returned the same result for a read call
+ */
+export class QuorumDisagreementError extends Error {
+  readonly method: string;
+  readonly threshold: number;
+  readonly responses: Record<string, unknown>; // the result or error returned by each RPC
+
+  constructor(method: string, threshold: number, responses: Record<string, unknown>) {
+    super(`Quorum of ${threshold} not reached for ${method} across ${Object.keys(responses).length} RPCs`);
+    this.name = "QuorumDisagreementError";
+    this.method = method;
+    this.threshold = threshold;
+    this.responses = responses;
+  }
+}
+
+/**
+ * Thrown when a proxied call, including every retry,
+ * exceeds the deadline set by proxySettings.retryPolicy
+ */
+export class DeadlineExceededError extends Error {
+  readonly method: string;
+  readonly deadline: number;
+
+  constructor(method: string, deadline: number) {
+    super(`Provider method ${method} exceeded its deadline of ${deadline}ms`);
+    this.name = "DeadlineExceededError";
+    this.method = method;
+    this.deadline = deadline;
+  }
+}
+
+/**
+ * A JSON-RPC error in the shape viem and EIP-1193 consumers expect,
+ * thrown by the adapters in place of the ethers v5 error
+ */
+export class JsonRpcRequestError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor({ code, message, data }: { code: number; message: string; data?: unknown }) {
+    super(message);
+    this.name = "JsonRpcRequestError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Thrown by RPCService.callBatch when an RPC answers a batch request with anything
+ * but a list of responses, the requests are then sent to it one by one
+ */
+export class BatchNotSupportedError extends Error {
+  readonly rpcUrl: string;
+
+  constructor(rpcUrl: string, reason: string) {
+    super(`${rpcUrl} does not support batch requests: ${reason}`);
+    this.name = "BatchNotSupportedError";
+    this.rpcUrl = rpcUrl;
+  }
+}
@@ -0,0 +1,34 @@
+import { JsonRpcError, JsonRpcPayload, JsonRpcProvider, JsonRpcResult, Network } from "ethers";
+import { toJsonRpcError } from "./error-classifier";
+import type { RPCHandler } from "./rpc-handler";
+
+/**
+ * An ethers v6 JsonRpcProvider sending every request through the handler's racing and failover engine
+ *
+ * @example const provider = new RPCHandlerV6Provider(handler);
+ */
+export class RPCHandlerV6Provider extends JsonRpcProvider {
+  private _handler: RPCHandler;
+
+  constructor(handler: RPCHandler) {
+    const network = Network.from(Number(handler.getNetworkId()));
+    super(undefined, network, { staticNetwork: network });
+    this._handler = handler;
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    // requests ethers batched together are sent on as a batch, which the handler splits and retries per request
+    if (Array.isArray(payload)) {
+      const responses = await this._handler.sendBatch(payload.map(({ method, params }) => ({ method, params: Array.isArray(params) ? params : [] })));
+      return payload.map(({ id }, index) => ({ id, ...responses[index] })) as JsonRpcResult[];
+    }
+
+    // ethers reads error responses out of the same list, like it would from a batch response
+    const { id, method, params } = payload;
+    try {
+      return [{ id, result: await this._handler.send(method, Array.isArray(params) ? params : []) }];
+    } catch (err) {
+      return [{ id, error: toJsonRpcError(err) } as JsonRpcError] as unknown as JsonRpcResult[];
+    }
+  }
+}
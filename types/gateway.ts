@@ -0,0 +1,233 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { toJsonRpcError } from "./error-classifier";
+import { BatchResponse } from "./handler";
+import type { RPCHandler } from "./rpc-handler";
+
+export type GatewaySettings = {
+  port?: number; // 8555 is default, 0 picks a free port
+  host?: string; // "127.0.0.1" is default
+  maxBodySize?: number; // (bytes) 10MB is default
+};
+
+type JsonRpcRequest = { jsonrpc?: string; id?: string | number | null; method?: unknown; params?: unknown };
+type JsonRpcResponse = { jsonrpc: "2.0"; id: string | number | null; result?: unknown; error?: { code: number; message: string; data?: unknown } };
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const INVALID_REQUEST_MESSAGE = "Invalid request";
+// clear of 8545 and 8546, taken by anvil and the local RPCs the handler races
+const DEFAULT_PORT = 8555;
+
+class PayloadTooLargeError extends Error {}
+
+function isValidRequest(request: JsonRpcRequest): request is JsonRpcRequest & { method: string } {
+  return !!request && typeof request === "object" && typeof request.method === "string";
+}
+
+/**
+ * A local JSON-RPC endpoint forwarding every request through a handler, so tools that only take
+ * a URL (Foundry, anvil --fork-url, Hardhat) get racing and failover too.
+ *
+ * - POST / accepts single and batch JSON-RPC requests, batches are sent on through handler.sendBatch()
+ * - GET /health answers 200 while the handler has a healthy RPC, 503 otherwise
+ * - GET /status reports the current ranking of the RPCs
+ *
+ * API keys in the RPC URLs of /health and /status are redacted back to their placeholders.
+ */
+export class RPCGateway {
+  private _handler: RPCHandler;
+  private _settings: GatewaySettings;
+  private _server: Server;
+
+  constructor(handler: RPCHandler, settings: GatewaySettings = {}) {
+    this._handler = handler;
+    this._settings = settings;
+    this._server = createServer((req, res) => void this._onRequest(req, res));
+  }
+
+  /**
+   * Races the RPCs, unless already done, and starts listening. Resolves with the gateway's URL.
+   */
+  public async listen(): Promise<string> {
+    if (!this._handler.getActiveRpcUrl()) {
+      await this._handler.getFastestRpcProvider();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this._server.once("error", reject);
+      this._server.listen(this._settings.port ?? DEFAULT_PORT, this._settings.host ?? "127.0.0.1", () => {
+        this._server.off("error", reject);
+        resolve();
+      });
+    });
+
+    return this.getUrl() as string;
+  }
+
+  public getUrl(): string | null {
+    const address = this._server.address() as AddressInfo | null;
+    if (!address) return null;
+
+    const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._server.close((err) => (err ? reject(err) : resolve()));
+      this._server.closeAllConnections();
+    });
+  }
+
+  private async _onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? "/").split("?")[0];
+
+    try {
+      if (req.method === "GET" && path === "/health") {
+        const isHealthy = this._handler.getRankedLatencies().length > 0;
+        return this._respond(res, isHealthy ? 200 : 503, {
+          status: isHealthy ? "ok" : "unavailable",
+          activeRpcUrl: this._handler.redact(this._handler.getActiveRpcUrl()),
+        });
+      }
+
+      if (req.method === "GET" && path === "/status") {
+        return this._respond(res, 200, this._handler.redact(this._getStatus()));
+      }
+
+      if (path !== "/") {
+        return this._respond(res, 404, { error: "Not found" });
+      }
+
+      if (req.method !== "POST") {
+        return this._respond(res, 405, { error: "Method not allowed" });
+      }
+
+      const body = await this._readBody(req);
+      const response = await this._handleJsonRpc(body);
+
+      // notifications get no response
+      return response === null ? this._respond(res, 204) : this._respond(res, 200, response);
+    } catch (err) {
+      if (err instanceof PayloadTooLargeError) {
+        return this._respond(res, 413, { error: err.message });
+      }
+
+      this._handler.log("error", `[${this._handler.proxySettings.moduleName}] Gateway request failed`, this._handler.metadataMaker(err, "gateway", [path]));
+      return this._respond(res, 500, { error: "Internal server error" });
+    }
+  }
+
+  private async _handleJsonRpc(body: string): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    let payload: unknown;
+
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return this._error(null, PARSE_ERROR, "Parse error");
+    }
+
+    if (!Array.isArray(payload)) {
+      return this._forward(payload as JsonRpcRequest);
+    }
+
+    if (!payload.length) {
+      return this._error(null, INVALID_REQUEST, INVALID_REQUEST_MESSAGE);
+    }
+
+    const responses = await this._forwardBatch(payload);
+    const answered = responses.filter((response): response is JsonRpcResponse => response !== null);
+
+    return answered.length ? answered : null;
+  }
+
+  private async _forward(request: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+    if (!isValidRequest(request)) {
+      return this._error(request?.id ?? null, INVALID_REQUEST, INVALID_REQUEST_MESSAGE);
+    }
+
+    const isNotification = !("id" in request);
+    const id = request.id ?? null;
+
+    try {
+      const result = await this._handler.send(request.method, Array.isArray(request.params) ? request.params : []);
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      return isNotification ? null : { jsonrpc: "2.0", id, error: toJsonRpcError(err) };
+    }
+  }
+
+  // the valid requests are sent on as one batch, invalid ones are answered on their own
+  private async _forwardBatch(payload: JsonRpcRequest[]): Promise<(JsonRpcResponse | null)[]> {
+    const requests = payload.filter(isValidRequest);
+    let responses: BatchResponse[];
+
+    try {
+      responses = await this._handler.sendBatch(requests.map(({ method, params }) => ({ method, params: Array.isArray(params) ? params : [] })));
+    } catch (err) {
+      responses = requests.map(() => ({ error: toJsonRpcError(err) }));
+    }
+
+    let next = 0;
+
+    return payload.map((request) => {
+      if (!isValidRequest(request)) {
+        return this._error(request?.id ?? null, INVALID_REQUEST, INVALID_REQUEST_MESSAGE);
+      }
+
+      const response = responses[next++];
+      // notifications get no response
+      return "id" in request ? { jsonrpc: "2.0", id: request.id ?? null, ...response } : null;
+    });
+  }
+
+  private _error(id: string | number | null, code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: "2.0", id, error: { code, message } };
+  }
+
+  private _getStatus() {
+    const ranking = this._handler.getRankedLatencies().map(([rpc, latency]) => ({ rpcUrl: rpc.split("__")[1], latency }));
+
+    return {
+      networkId: this._handler.getNetworkId(),
+      networkName: this._handler.getNetworkName(),
+      activeRpcUrl: this._handler.getActiveRpcUrl(),
+      ranking,
+      latencies: this._handler.getLatencies(),
+      failures: this._handler.getFailures(),
+    };
+  }
+
+  private _readBody(req: IncomingMessage): Promise<string> {
+    const maxBodySize = this._settings.maxBodySize ?? 10 * 1024 * 1024;
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+
+        // the rest of the body is drained and dropped
+        if (size > maxBodySize) {
+          reject(new PayloadTooLargeError(`Request body exceeds ${maxBodySize} bytes`));
+          return;
+        }
+
+        chunks.push(chunk);
+      });
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private _respond(res: ServerResponse, status: number, body?: unknown): void {
+    if (body === undefined) {
+      res.writeHead(status).end();
+      return;
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+  }
+}
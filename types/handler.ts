@@ -20,6 +20,11 @@ export type ValidBlockData = {
   };
 };
 
+/**
+ * Why an RPC was excluded from the latest race
+ */
+export type RpcFailureReason = "timeout" | "request-failed" | "invalid-json" | "rpc-error" | "rate-limited" | "bad-block" | "lagging" | "wrong-chain";
+
 export type Token = {
   decimals: number;
   address: string;
@@ -39,29 +44,150 @@ export type HandlerInterface = {
   testRpcPerformance(): Promise<JsonRpcProvider | null>;
 };
 
+export type RpcPattern = string | RegExp; // an exact URL, a hostname glob e.g "*.infura.io" or a RegExp tested against the URL
+
+export type RpcFilter = {
+  allow?: RpcPattern[]; // when given only these RPCs are used, regardless of their tracking status
+  deny?: RpcPattern[]; // these RPCs are never used, even if allowed
+};
+
+export type StorageAdapter = {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+};
+
+export type QuorumSettings = {
+  providers: number; // how many of the fastest RPCs each read call is sent to
+  threshold: number; // how many of them must return the same result
+  methods?: string[]; // provider methods and JSON-RPC methods (via send) to cross-check, defaults to the common state reads
+};
+
+export type BroadcastSettings = {
+  providers: number; // how many of the fastest RPCs each signed transaction is sent to in parallel
+};
+
+export type BatchSettings = {
+  maxSize?: number; // 20 is default, larger batches are split into batches of this many requests spread over the fastest RPCs
+};
+
+export type BatchRequest = {
+  method: string;
+  params?: unknown[];
+};
+
+// the result, or the JSON-RPC error, of each request of a batch
+export type BatchResponse = { result: unknown } | { error: { code: number; message: string; data?: unknown } };
+
+export type LatencyStatistic = "latest" | "ewma" | "p50" | "p95";
+
+export type LatencyStats = {
+  samples: number[]; // (ms) the most recent successful race durations, oldest first
+  ewma: number; // (ms) exponentially weighted moving average of the durations
+  p50: number; // (ms)
+  p95: number; // (ms)
+  successes: number;
+  failures: number;
+  successRate: number; // 0-1
+  lastSeen: number | null; // timestamp of the last successful response
+};
+
+export type LatencyStatsSettings = {
+  rankBy?: LatencyStatistic; // "ewma" is default, the statistic RPCs are ranked on
+  sampleSize?: number; // 20 is default, how many samples are kept per RPC
+  ewmaAlpha?: number; // 0.3 is default, the weight (0-1) of the newest sample in the EWMA
+};
+
+export type HealthMonitorSettings = {
+  interval: number; // (ms) how often the RPCs are re-raced
+  maxLatency?: number; // (ms) the active RPC is switched once its ranked latency exceeds this, otherwise only once it fails a race
+};
+
+export type RpcMethodFamily = "debug" | "trace";
+
+export type RpcCapabilities = {
+  methodFamilies: RpcMethodFamily[]; // supported beyond the standard eth_ methods
+  archiveDepth: number; // how many blocks behind the head the RPC serves state for
+  isArchive: boolean; // state is served back to block 1
+  maxLogsRange: number; // the widest eth_getLogs block range accepted out of 1000, 10000 and 100000, 0 if none
+};
+
+export type RpcRequirements = {
+  isArchive?: boolean;
+  archiveDepth?: number;
+  methodFamilies?: RpcMethodFamily[];
+  logsRange?: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerSettings = {
+  failureThreshold: number; // consecutive failures before an RPC is skipped
+  cooldown: number; // (ms) how long an RPC is skipped before it is tried again
+};
+
+export type TokenBucketSettings = {
+  requestsPerSecond: number;
+  burst?: number; // requestsPerSecond is default, how many requests may be sent at once
+};
+
+export type RateLimitSettings = {
+  cooldown?: number; // (ms) 10000 is default, how long a rate-limited RPC is skipped when it sends no Retry-After
+  maxCooldown?: number; // (ms) 300000 is default, the longest Retry-After honoured
+  maxWait?: number; // (ms) 10000 is default, once every RPC is rate-limited calls wait this long at most for the first to cool down, then throw
+  tokenBucket?: TokenBucketSettings | null; // opt-in, a client-side limit for each RPC, RPCs out of tokens are skipped by the proxy
+};
+
+export type RetryStrategy = "constant" | "exponential" | "decorrelated-jitter";
+
+// returns the delay (ms) before the nth retry, previousDelay is the delay used before the last retry
+export type RetryDelayFunction = (attempt: number, previousDelay: number) => number;
+
+export type RetryPolicy = {
+  strategy: RetryStrategy | RetryDelayFunction;
+  baseDelay?: number; // (ms) defaults to retryDelay
+  maxDelay?: number; // (ms) caps every computed delay, 10s by default for the built-in strategies
+  deadline?: number; // (ms) wall-clock budget for a proxied call including every retry, regardless of how many RPCs there are
+};
+
 // This is log message prefix which can be used to identify the logs from this module
 type ModuleName = "[RPCHandler Provider Proxy] - ";
 
 type ProxySettings = {
   retryCount: number; // how many times we'll loop the list of RPCs retrying the request before failing
   retryDelay: number; // how long we'll wait before moving to the next RPC
+  retryPolicy?: RetryPolicy | RetryStrategy | RetryDelayFunction | null; // null will default to a constant retryDelay
   // eslint-disable-next-line @typescript-eslint/ban-types
   logTier: (PrettyLogsWithOk & {}) | null; // set to "none" for no logs, null will default to "error", "verbose" will log all
   logger: PrettyLogs | LogInterface | null; // null will default to PrettyLogs, otherwise pass in your own logger
   strictLogs: boolean; // true is default, only the specified logTier will be logged. false will log all logs.
   moduleName?: ModuleName | string; // this is the prefix for the logs
   disabled?: boolean;
+  rateLimit?: RateLimitSettings | null; // rate-limited RPCs are always skipped by the proxy and the race until their Retry-After passes
+  circuitBreaker?: CircuitBreakerSettings | null; // opt-in, failing RPCs are skipped by the proxy and the race until their cooldown passes
+  broadcast?: BroadcastSettings | null; // opt-in, signed transactions are fanned out to the fastest RPCs rather than resent one by one
+  quorum?: QuorumSettings | null; // opt-in, read calls only resolve once enough of the fastest RPCs agree
+  batch?: BatchSettings | null; // how handler.sendBatch() splits batches
 };
 
 export type HandlerConstructorConfig = {
   networkId: NetworkId;
   networkName: NetworkName | null;
   tracking?: Tracking; // "yes" | "limited" | "none", default is "yes". This is the data tracking status of the RPC provider
+  rpcFilter?: RpcFilter; // allow or deny RPCs by URL, hostname glob or RegExp, applied to both networkRpcs and runtimeRpcs
+  apiKeys?: Record<string, string>; // values for the placeholders of RPC URLs e.g { INFURA_API_KEY: "..." } for "https://mainnet.infura.io/v3/${INFURA_API_KEY}", `*_API_KEY` environment variables are the fallback in Node
+  webSockets?: boolean; // false is default, wss:// RPCs are raced too and the winner is returned as a WebSocketProvider
   networkRpcs: Rpc[] | null; // e.g "https://mainnet.infura.io/..."
-  autoStorage: boolean | null; // browser only, will store in localStorage
+  autoStorage: boolean | null; // persists race results, in localStorage by default (browser only)
+  storage?: StorageAdapter; // where autoStorage persists race results, e.g new JsonFileStorageAdapter("./rpcs.json") to use it in Node
+  coordinateTabs?: boolean; // browser only, one tab races the RPCs and the other tabs reuse its results
   cacheRefreshCycles: number | null; // bad RPCs are excluded if they fail, this is how many cycles before they're re-tested
+  cacheMaxAge?: number; // (ms) 1 hour is default, persisted race results older than this are ignored
   runtimeRpcs: string[] | null; // e.g "<networkId>__https://mainnet.infura.io/..." > "1__https://mainnet.infura.io/..."
   rpcTimeout: number | null; // when the RPCs are tested they are raced, this is the max time to allow for a response
+  verifyChainId?: boolean; // true is default, RPCs reporting a different eth_chainId than networkId are quarantined
+  maxBlockLag?: number | null; // RPCs whose latest block trails the observed chain head by more than this are excluded, null disables the check
+  probeCapabilities?: boolean; // false is default, RPCs are probed for debug/trace support, archive depth and logs range after each race
+  latencyStats?: LatencyStatsSettings; // how the race history of each RPC is kept and ranked
   proxySettings: ProxySettings; // settings for the proxy
 };
 
@@ -90,11 +216,23 @@ export type NetworkName = ChainsUnfiltered[NetworkId] | "anvil" | "hardhat";
 
 export type Tracking = "yes" | "limited" | "none";
 
+export type RpcAuth = { token: string } | { username: string; password: string }; // sent as a bearer token or basic auth
+
+export type RpcRequestOptions = {
+  headers?: Record<string, string>;
+  timeout?: number; // (ms)
+  rateLimit?: TokenBucketSettings;
+};
+
 export type Rpc = {
   url: string;
   tracking?: Tracking;
   trackingDetails?: string;
   isOpenSource?: boolean;
+  headers?: Record<string, string>; // e.g { "x-api-key": "..." }, sent with every HTTP request to this RPC
+  auth?: RpcAuth;
+  timeout?: number; // (ms) overrides rpcTimeout in the race, the proxy waits up to this long for each call
+  rateLimit?: TokenBucketSettings; // overrides proxySettings.rateLimit.tokenBucket for this RPC
 };
 
 export function getRpcUrls(rpcs: Rpc[]) {
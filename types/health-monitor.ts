@@ -0,0 +1,80 @@
+import { HealthMonitorSettings } from "./handler";
+import { RPCHandler } from "./rpc-handler";
+
+/**
+ * Re-races a handler's RPCs on an interval so long-running processes stay on a healthy RPC.
+ *
+ * The active provider is only switched once it degrades, i.e it failed the latest race
+ * or is slower than `maxLatency`, rather than every time another RPC wins by a few ms.
+ */
+export class HealthMonitor {
+  private _handler: RPCHandler;
+  private _settings: HealthMonitorSettings;
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _isChecking = false;
+
+  constructor(handler: RPCHandler, settings: HealthMonitorSettings) {
+    this._handler = handler;
+    this._settings = settings;
+    handler.onDestroy(() => this.stop());
+  }
+
+  public start(): void {
+    if (this._timer) return;
+
+    this._timer = setInterval(() => void this.check(), this._settings.interval);
+
+    // don't keep a Node process alive just to monitor RPCs
+    if (typeof this._timer === "object" && typeof this._timer.unref === "function") {
+      this._timer.unref();
+    }
+  }
+
+  public stop(): void {
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+  }
+
+  public isRunning(): boolean {
+    return this._timer !== null;
+  }
+
+  public async check(): Promise<void> {
+    // a slow race should never overlap the next one
+    if (this._isChecking) return;
+    this._isChecking = true;
+
+    const handler = this._handler;
+
+    try {
+      await handler.updateLatencies();
+
+      const rankedLatencies = handler.getRankedLatencies();
+      const activeRpcUrl = handler.getActiveRpcUrl();
+
+      if (!rankedLatencies.length) return;
+
+      const fastestRpcUrl = rankedLatencies[0][0].split("__")[1];
+      if (fastestRpcUrl === activeRpcUrl) return;
+
+      const active = rankedLatencies.find(([rpc]) => rpc === `${handler.getNetworkId()}__${activeRpcUrl}`);
+
+      if (!activeRpcUrl || this._isDegraded(active?.[1])) {
+        handler.switchProvider(fastestRpcUrl);
+      }
+    } catch (err) {
+      handler.log("error", `[${handler.proxySettings.moduleName}] Health check failed`, handler.metadataMaker(err, "healthMonitor", []));
+    } finally {
+      this._isChecking = false;
+    }
+  }
+
+  private _isDegraded(latency: number | undefined): boolean {
+    // failed, lagging and quarantined RPCs are removed from the latencies
+    if (latency === undefined) return true;
+
+    return this._settings.maxLatency !== undefined && latency > this._settings.maxLatency;
+  }
+}
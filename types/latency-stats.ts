@@ -0,0 +1,65 @@
+import { LatencyStatistic, LatencyStats, LatencyStatsSettings, NetworkId } from "./handler";
+
+export const DEFAULT_SAMPLE_SIZE = 20;
+export const DEFAULT_EWMA_ALPHA = 0.3;
+
+function emptyStats(): LatencyStats {
+  return { samples: [], ewma: 0, p50: 0, p95: 0, successes: 0, failures: 0, successRate: 0, lastSeen: null };
+}
+
+// nearest-rank percentile
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function withSuccessRate(stats: LatencyStats): LatencyStats {
+  return { ...stats, successRate: stats.successes / (stats.successes + stats.failures) };
+}
+
+/**
+ * Adds a successful race duration to the history of an RPC, keeping at most `sampleSize` samples
+ */
+export function recordLatencySample(stats: LatencyStats | undefined, duration: number, settings: LatencyStatsSettings = {}, now = Date.now()): LatencyStats {
+  const previous = stats ?? emptyStats();
+  const alpha = settings.ewmaAlpha ?? DEFAULT_EWMA_ALPHA;
+  const samples = [...previous.samples, duration].slice(-(settings.sampleSize ?? DEFAULT_SAMPLE_SIZE));
+  const sorted = [...samples].sort((a, b) => a - b);
+
+  return withSuccessRate({
+    ...previous,
+    samples,
+    ewma: previous.samples.length ? alpha * duration + (1 - alpha) * previous.ewma : duration,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    successes: previous.successes + 1,
+    lastSeen: now,
+  });
+}
+
+export function recordLatencyFailure(stats: LatencyStats | undefined): LatencyStats {
+  const previous = stats ?? emptyStats();
+  return withSuccessRate({ ...previous, failures: previous.failures + 1 });
+}
+
+export function getLatencyStatistic(stats: LatencyStats | undefined, statistic: LatencyStatistic): number | undefined {
+  if (!stats?.samples.length) return undefined;
+  if (statistic === "latest") return stats.samples[stats.samples.length - 1];
+  return stats[statistic];
+}
+
+/**
+ * Orders a network's RPCs from fastest to slowest on the given statistic.
+ * `latencies` decides which RPCs are eligible, RPCs without any history fall back to their latest duration.
+ */
+export function rankLatencies(
+  latencies: Record<string, number>,
+  networkId: NetworkId,
+  latencyStats: Record<string, LatencyStats> = {},
+  rankBy: LatencyStatistic = "latest"
+): [string, number][] {
+  return Object.entries(latencies)
+    .filter(([key]) => key.startsWith(`${networkId}__`))
+    .map(([key, latency]): [string, number] => [key, getLatencyStatistic(latencyStats[key], rankBy) ?? latency])
+    .sort((a, b) => a[1] - b[1]);
+}
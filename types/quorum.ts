@@ -0,0 +1,120 @@
+import { QuorumDisagreementError } from "./errors";
+
+/**
+ * Read calls which are sent to multiple RPCs in quorum mode,
+ * both the provider method names and their JSON-RPC equivalents for `send`
+ */
+export const QUORUM_METHODS = [
+  "call",
+  "getBalance",
+  "getCode",
+  "getStorageAt",
+  "getTransactionCount",
+  "eth_call",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+  "eth_getTransactionCount",
+];
+
+// where each quorum method takes its block tag, the provider methods and JSON-RPC params line up
+const BLOCK_TAG_INDEXES: Record<string, number> = {
+  call: 1,
+  getBalance: 1,
+  getCode: 1,
+  getStorageAt: 2,
+  getTransactionCount: 1,
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getTransactionCount: 1,
+};
+
+export function isQuorumCall(prop: string, args: unknown[], methods: string[] = QUORUM_METHODS): boolean {
+  if (prop === "send") {
+    return typeof args[0] === "string" && methods.includes(args[0]);
+  }
+  return methods.includes(prop);
+}
+
+function getParams(prop: string, args: unknown[]): unknown[] {
+  return prop === "send" ? [...((args[1] as unknown[] | undefined) ?? [])] : [...args];
+}
+
+function getBlockTagIndex(prop: string, args: unknown[]): number | undefined {
+  return BLOCK_TAG_INDEXES[String(prop === "send" ? args[0] : prop)];
+}
+
+/**
+ * Whether the call reads the latest block, by its tag or by omitting it. Methods without a known block tag never do
+ */
+export function readsLatestBlock(prop: string, args: unknown[]): boolean {
+  const index = getBlockTagIndex(prop, args);
+  if (index === undefined) return false;
+
+  const blockTag = getParams(prop, args)[index];
+  return blockTag === undefined || blockTag === "latest";
+}
+
+/**
+ * Replaces the latest block with `blockNumber` so RPCs at different heights read the same block
+ */
+export function pinBlockTag(prop: string, args: unknown[], blockNumber: number): unknown[] {
+  if (!readsLatestBlock(prop, args)) return args;
+
+  const params = getParams(prop, args);
+  params[getBlockTagIndex(prop, args) as number] = `0x${blockNumber.toString(16)}`;
+  return prop === "send" ? [args[0], params] : params;
+}
+
+/**
+ * Calls every RPC in parallel and resolves with the first result returned by
+ * `threshold` of them, errors never count towards agreement.
+ *
+ * Results are compared by their JSON serialization so BigNumbers and
+ * plain hex strings are compared by value.
+ */
+export function callWithQuorum(method: string, rpcUrls: string[], threshold: number, call: (rpcUrl: string) => Promise<unknown>): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const responses: Record<string, unknown> = {};
+    const tally: Record<string, number> = {};
+    let pending = rpcUrls.length;
+    let isSettled = false;
+
+    if (rpcUrls.length < threshold) {
+      reject(new QuorumDisagreementError(method, threshold, responses));
+      return;
+    }
+
+    function onResponse(rpcUrl: string, result: unknown) {
+      responses[rpcUrl] = result;
+      if (isSettled) return;
+
+      const key = JSON.stringify(result) ?? "undefined";
+      tally[key] = (tally[key] ?? 0) + 1;
+
+      if (tally[key] >= threshold) {
+        isSettled = true;
+        resolve(result);
+      }
+    }
+
+    function onSettled() {
+      pending--;
+      if (!isSettled && pending === 0) {
+        isSettled = true;
+        reject(new QuorumDisagreementError(method, threshold, responses));
+      }
+    }
+
+    for (const rpcUrl of rpcUrls) {
+      void call(rpcUrl)
+        .then((result) => onResponse(rpcUrl, result))
+        .catch((err) => {
+          responses[rpcUrl] = err;
+        })
+        .finally(onSettled);
+    }
+  });
+}
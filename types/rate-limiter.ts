@@ -0,0 +1,115 @@
+import { RateLimitSettings, RpcRequestOptions, TokenBucketSettings } from "./handler";
+
+const DEFAULT_COOLDOWN = 10_000;
+const DEFAULT_MAX_COOLDOWN = 300_000;
+const DEFAULT_MAX_WAIT = 10_000;
+
+type TokenBucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/**
+ * Keeps track of the RPCs throttling us and, optionally, throttles calls to each RPC before they do.
+ *
+ * - cooling down: an RPC which answered with a 429 or a rate-limit error is skipped until its Retry-After,
+ *   or `cooldown` ms without one, has passed
+ * - token buckets: each call takes a token and tokens refill at `requestsPerSecond`, so bursts spread over RPCs
+ */
+export class RateLimiter {
+  private _settings: RateLimitSettings;
+  private _rpcOptions: Record<string, RpcRequestOptions>;
+  private _cooldownEnds: Record<string, number> = {};
+  private _buckets: Record<string, TokenBucket> = {};
+
+  constructor(settings: RateLimitSettings | null = {}, rpcOptions: Record<string, RpcRequestOptions> = {}) {
+    this._settings = settings ?? {};
+    this._rpcOptions = rpcOptions;
+  }
+
+  isCoolingDown(rpcUrl: string): boolean {
+    const endsAt = this._cooldownEnds[rpcUrl];
+    if (endsAt === undefined) return false;
+
+    if (Date.now() >= endsAt) {
+      delete this._cooldownEnds[rpcUrl];
+      return false;
+    }
+
+    return true;
+  }
+
+  recordRateLimit(rpcUrl: string, retryAfter: number | null): number {
+    const cooldown = Math.min(retryAfter ?? this._settings.cooldown ?? DEFAULT_COOLDOWN, this._settings.maxCooldown ?? DEFAULT_MAX_COOLDOWN);
+    this._cooldownEnds[rpcUrl] = Math.max(this._cooldownEnds[rpcUrl] ?? 0, Date.now() + cooldown);
+    return cooldown;
+  }
+
+  /**
+   * The ms left of each cooldown
+   */
+  getRateLimitedRpcs(): Record<string, number> {
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.keys(this._cooldownEnds)
+        .filter((rpcUrl) => this.isCoolingDown(rpcUrl))
+        .map((rpcUrl) => [rpcUrl, this._cooldownEnds[rpcUrl] - now])
+    );
+  }
+
+  /**
+   * How long until the first of the RPCs has cooled down, 0 if one of them is not cooling down
+   * and null once that is longer than `maxWait`
+   */
+  getCooldownWait(rpcUrls: string[]): number | null {
+    const now = Date.now();
+    const waits = rpcUrls.map((rpcUrl) => (this.isCoolingDown(rpcUrl) ? this._cooldownEnds[rpcUrl] - now : 0));
+    const wait = waits.length ? Math.min(...waits) : 0;
+
+    return wait > (this._settings.maxWait ?? DEFAULT_MAX_WAIT) ? null : wait;
+  }
+
+  hasToken(rpcUrl: string): boolean {
+    const bucket = this._refill(rpcUrl);
+    return !bucket || bucket.tokens >= 1;
+  }
+
+  takeToken(rpcUrl: string): void {
+    const bucket = this._refill(rpcUrl);
+    if (bucket && bucket.tokens >= 1) {
+      bucket.tokens--;
+    }
+  }
+
+  /**
+   * How long until any of the RPCs has a token, 0 if one has one now
+   */
+  getTokenWait(rpcUrls: string[]): number {
+    const waits = rpcUrls.map((rpcUrl) => {
+      const bucket = this._refill(rpcUrl);
+      const settings = this._getBucketSettings(rpcUrl);
+      return !bucket || !settings ? 0 : Math.max(((1 - bucket.tokens) / settings.requestsPerSecond) * 1000, 0);
+    });
+
+    return waits.length ? Math.ceil(Math.min(...waits)) : 0;
+  }
+
+  private _getBucketSettings(rpcUrl: string): TokenBucketSettings | null {
+    return this._rpcOptions[rpcUrl]?.rateLimit ?? this._settings.tokenBucket ?? null;
+  }
+
+  private _refill(rpcUrl: string): TokenBucket | null {
+    const settings = this._getBucketSettings(rpcUrl);
+    if (!settings) return null;
+
+    const burst = settings.burst ?? settings.requestsPerSecond;
+    const now = Date.now();
+    const bucket = this._buckets[rpcUrl] ?? { tokens: burst, updatedAt: now };
+
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * settings.requestsPerSecond);
+    bucket.updatedAt = now;
+    this._buckets[rpcUrl] = bucket;
+
+    return bucket;
+  }
+}
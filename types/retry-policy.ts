@@ -0,0 +1,70 @@
+import { DeadlineExceededError } from "./errors";
+import { RetryDelayFunction, RetryPolicy, RetryStrategy } from "./handler";
+
+// caps the growing strategies when the policy sets no maxDelay
+const DEFAULT_MAX_DELAY = 10_000;
+
+/**
+ * Normalizes proxySettings.retryPolicy, the fixed retryDelay
+ * is used as the base delay unless the policy sets its own
+ */
+export function resolveRetryPolicy(retryPolicy: RetryPolicy | RetryStrategy | RetryDelayFunction | null | undefined, retryDelay: number): RetryPolicy {
+  if (!retryPolicy) {
+    return { strategy: "constant", baseDelay: retryDelay };
+  }
+
+  if (typeof retryPolicy === "string" || typeof retryPolicy === "function") {
+    return { strategy: retryPolicy, baseDelay: retryDelay };
+  }
+
+  return { ...retryPolicy, baseDelay: retryPolicy.baseDelay ?? retryDelay };
+}
+
+/**
+ * Returns the delay (ms) before the retries of the nth pass over the RPCs, starting at 1,
+ * built-in strategies are capped at 10s unless the policy sets a maxDelay
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, previousDelay: number): number {
+  const baseDelay = policy.baseDelay ?? 0;
+  let delay: number;
+
+  if (typeof policy.strategy === "function") {
+    delay = policy.strategy(attempt, previousDelay);
+  } else if (policy.strategy === "exponential") {
+    delay = baseDelay * 2 ** (attempt - 1);
+  } else if (policy.strategy === "decorrelated-jitter") {
+    // https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+    const upper = Math.max(baseDelay, previousDelay * 3);
+    delay = baseDelay + Math.random() * (upper - baseDelay);
+  } else {
+    delay = baseDelay;
+  }
+
+  if (policy.maxDelay !== undefined) {
+    delay = Math.min(delay, policy.maxDelay);
+  } else if (typeof policy.strategy !== "function") {
+    delay = Math.min(delay, Math.max(baseDelay, DEFAULT_MAX_DELAY));
+  }
+
+  return Math.max(0, delay);
+}
+
+/**
+ * Rejects with a DeadlineExceededError if the promise does not
+ * settle before what remains of the deadline started at `startTime`
+ */
+export function withDeadline<T>(promise: Promise<T>, method: string, startTime: number, deadline?: number): Promise<T> {
+  if (deadline === undefined) return promise;
+
+  const remaining = deadline - (Date.now() - startTime);
+  if (remaining <= 0) {
+    return Promise.reject(new DeadlineExceededError(method, deadline));
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new DeadlineExceededError(method, deadline)), remaining);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,56 @@
+import { RpcFilter, RpcPattern } from "./handler";
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href.replace(/\/$/, "");
+  } catch {
+    return url.replace(/\/$/, "");
+  }
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Strings containing "://" match an exact URL, other strings match the hostname
+ * with `*` as a wildcard (e.g "*.infura.io") and regular expressions are tested against the full URL
+ */
+export function matchesRpcPattern(rpcUrl: string, pattern: RpcPattern): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(rpcUrl);
+  }
+
+  if (pattern.includes("://")) {
+    return normalizeUrl(rpcUrl) === normalizeUrl(pattern);
+  }
+
+  const hostname = getHostname(rpcUrl);
+  return hostname !== null && globToRegExp(pattern).test(hostname);
+}
+
+export function isAllowListed(rpcUrl: string, filter: RpcFilter | undefined): boolean {
+  return !!filter?.allow?.some((pattern) => matchesRpcPattern(rpcUrl, pattern));
+}
+
+/**
+ * Denied RPCs are never used and, once an allowlist is given, only RPCs on it are
+ */
+export function isRpcPermitted(rpcUrl: string, filter: RpcFilter | undefined): boolean {
+  if (!filter) return true;
+  if (filter.deny?.some((pattern) => matchesRpcPattern(rpcUrl, pattern))) return false;
+  if (filter.allow?.length) return isAllowListed(rpcUrl, filter);
+  return true;
+}
@@ -0,0 +1,106 @@
+import { JsonRpcProvider } from "@ethersproject/providers";
+import { HandlerConstructorConfig, NetworkId } from "./handler";
+import { PrettyLogs } from "./logs";
+import { RPCHandler } from "./rpc-handler";
+
+// shared by every handler in the registry
+export type RegistryConfig = Omit<HandlerConstructorConfig, "networkId" | "networkName" | "networkRpcs" | "runtimeRpcs">;
+
+// per network overrides of the shared config
+export type NetworkConfig = Partial<Omit<HandlerConstructorConfig, "networkId">>;
+
+/**
+ * Holds one RPCHandler per network for multi-chain apps, unlike `RPCHandler.getInstance`
+ * which keeps a single handler for the whole process.
+ *
+ * Handlers are created on first use and share the registry's logger and storage settings.
+ */
+export class RPCHandlerRegistry {
+  private _config: RegistryConfig;
+  private _networkConfigs: Partial<Record<NetworkId, NetworkConfig>> = {};
+  private _handlers: Partial<Record<NetworkId, RPCHandler>> = {};
+
+  constructor(config: RegistryConfig) {
+    this._config = {
+      ...config,
+      proxySettings: {
+        ...config.proxySettings,
+        // one logger for every network rather than one each
+        logger: config.proxySettings.logger || new PrettyLogs(),
+      },
+    };
+  }
+
+  /**
+   * Sets network specific config, it only applies to handlers created afterwards
+   */
+  public register(networkId: NetworkId, config: NetworkConfig): this {
+    this._networkConfigs[networkId] = config;
+    return this;
+  }
+
+  public getHandler(networkId: NetworkId): RPCHandler {
+    let handler = this._handlers[networkId];
+
+    if (!handler) {
+      const networkConfig = this._networkConfigs[networkId] ?? {};
+      handler = new RPCHandler({
+        networkName: null,
+        networkRpcs: null,
+        runtimeRpcs: null,
+        ...this._config,
+        ...networkConfig,
+        networkId,
+        proxySettings: { ...this._config.proxySettings, ...networkConfig.proxySettings },
+      });
+      this._handlers[networkId] = handler;
+    }
+
+    return handler;
+  }
+
+  public hasHandler(networkId: NetworkId): boolean {
+    return this._handlers[networkId] !== undefined;
+  }
+
+  // networks with a handler created
+  public getNetworkIds(): NetworkId[] {
+    return Object.keys(this._handlers) as NetworkId[];
+  }
+
+  public async getFastestRpcProvider(networkId: NetworkId): Promise<JsonRpcProvider> {
+    return this.getHandler(networkId).getFastestRpcProvider();
+  }
+
+  /**
+   * Races every network in parallel, one failing network does not affect the others
+   * and is left out of the result
+   */
+  public async raceAll(networkIds: NetworkId[] = this.getNetworkIds()): Promise<Partial<Record<NetworkId, JsonRpcProvider>>> {
+    const results = await Promise.allSettled(networkIds.map((networkId) => this.getFastestRpcProvider(networkId)));
+    const providers: Partial<Record<NetworkId, JsonRpcProvider>> = {};
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        providers[networkIds[index]] = result.value;
+      }
+    });
+
+    return providers;
+  }
+
+  /**
+   * Removes a network's handler and destroys it, see `handler.destroy()`
+   */
+  public async dispose(networkId: NetworkId): Promise<void> {
+    const handler = this._handlers[networkId];
+    delete this._handlers[networkId];
+    await handler?.destroy();
+  }
+
+  public async disposeAll(): Promise<void> {
+    const handlers = Object.values(this._handlers) as RPCHandler[];
+    this._handlers = {};
+    await Promise.all(handlers.map((handler) => handler.destroy()));
+  }
+}
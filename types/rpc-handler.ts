@@ -1,28 +1,96 @@
-import { JsonRpcProvider } from "@ethersproject/providers";
+import { JsonRpcProvider, WebSocketProvider } from "@ethersproject/providers";
 import { LOCAL_HOST, networkRpcs, networkIds, LOCAL_HOST_2 } from "./constants";
-import { HandlerInterface, HandlerConstructorConfig, NetworkId, NetworkName, Rpc, Tracking, getRpcUrls } from "./handler";
+import {
+  BatchRequest,
+  BatchResponse,
+  BroadcastSettings,
+  CircuitState,
+  HandlerInterface,
+  HandlerConstructorConfig,
+  LatencyStatistic,
+  LatencyStats,
+  LatencyStatsSettings,
+  NetworkId,
+  NetworkName,
+  QuorumSettings,
+  Rpc,
+  RpcCapabilities,
+  RpcFailureReason,
+  RpcFilter,
+  RpcRequestOptions,
+  RpcRequirements,
+  StorageAdapter,
+  Tracking,
+  getRpcUrls,
+} from "./handler";
 import { Metadata, PrettyLogs, PrettyLogsWithOk } from "./logs";
+import { callWithQuorum, isQuorumCall, pinBlockTag, readsLatestBlock } from "./quorum";
+import { CircuitBreaker } from "./circuit-breaker";
+import { RateLimiter } from "./rate-limiter";
+import { BatchNotSupportedError, DeadlineExceededError } from "./errors";
+import { classifyError, getRateLimit } from "./error-classifier";
+import { broadcastTransaction, isBroadcastCall } from "./broadcast";
+import { chunkBatch, DEFAULT_BATCH_SIZE, SettledRequest, toBatchResponse } from "./batch";
+import { getRetryDelay, resolveRetryPolicy, withDeadline } from "./retry-policy";
+import { rankLatencies, recordLatencyFailure, recordLatencySample } from "./latency-stats";
 import { RPCService } from "./rpc-service";
-import { StorageService } from "./storage-service";
+import { DEFAULT_CACHE_MAX_AGE, StorageService } from "./storage-service";
+import { LocalStorageAdapter } from "./storage-adapters";
+import { SharedRaceResults, TabCoordinator } from "./tab-coordinator";
+import { isAllowListed, isRpcPermitted } from "./rpc-filter";
+import { getPlaceholders, lookupApiKeys, redactSecrets, resolveRpcUrl } from "./rpc-templates";
+import { getRpcRequestOptions, getRpcSecrets } from "./rpc-options";
+import { isProbedMethod, meetsRequirements, probeRpcCapabilities, supportsMethod } from "./capability-probe";
+import { createWebSocketProvider, isWebSocketOpen, isWebSocketUrl } from "./websocket";
+import { Eip1193Provider } from "./eip1193-provider";
 
 const NO_RPCS_AVAILABLE = "No RPCs available";
+const NO_CAPABLE_RPCS = "No RPCs meet the requirements";
+const RPC_HEADER = { "Content-Type": "application/json" };
 
 export class RPCHandler implements HandlerInterface {
   private static _instance: RPCHandler | null = null;
   private _provider: JsonRpcProvider | null = null;
+  private _activeProvider: JsonRpcProvider | null = null; // the unproxied provider every raced proxy calls through to
+  private _racedProviders = new WeakSet<JsonRpcProvider>();
+  private _providerRequirements = new WeakMap<JsonRpcProvider, RpcRequirements>(); // set for providers from getCapableRpcProvider()
+  private _eip1193Provider: Eip1193Provider | null = null;
   private _networkId: NetworkId;
   private _networkName: NetworkName;
   private _env: string = "node";
 
   private _rpcTimeout: number = Number.MAX_SAFE_INTEGER; // ms
+  private _maxBlockLag: number | null = null; // blocks
   private _cacheRefreshCycles: number = 10;
   private _refreshLatencies: number = 0;
   private _autoStorage: boolean = false;
+  private _storage: StorageAdapter | null = null;
+  private _storageLoaded: Promise<void> = Promise.resolve();
+  private _cacheMaxAge: number = DEFAULT_CACHE_MAX_AGE; // ms
+  private _tabCoordinator: TabCoordinator | null = null;
 
   private _runtimeRpcs: string[] = [];
   private _latencies: Record<string, number> = {};
+  private _failures: Record<string, RpcFailureReason> = {};
+  private _latencyStats: Record<string, LatencyStats> = {};
+  private _latencyStatsSettings: LatencyStatsSettings = {};
+  private _verifyChainId: boolean = true;
+  private _circuitBreaker: CircuitBreaker | null = null;
+  private _rateLimiter: RateLimiter = new RateLimiter();
+  private _batchUnsupportedRpcs = new Set<string>(); // RPCs which rejected a batch, they are sent each request on its own from then on
+  private _chainIds: Record<string, number> = {}; // the eth_chainId each RPC reported, cached for the lifetime of the handler
+  private _shouldProbeCapabilities: boolean = false;
+  private _capabilities: Record<string, RpcCapabilities> = {}; // cached for the lifetime of the handler like _chainIds
+  private _capabilityProbe: Promise<void> = Promise.resolve();
 
   private _networkRpcs: Rpc[];
+  private _rpcFilter: RpcFilter | undefined;
+  private _apiKeys: Record<string, string> = {};
+  private _secrets: Record<string, string> = {}; // the API keys, credentials and RPC header values redacted from every log
+  private _rpcOptions: Record<string, RpcRequestOptions> = {}; // the headers and timeouts set by networkRpcs entries
+  private _webSockets: boolean = false;
+  private _webSocketProviders: Record<string, WebSocketProvider> = {};
+  private _destroyListeners = new Set<() => void>();
 
   private _proxySettings: HandlerConstructorConfig["proxySettings"] = {
     disabled: false,
@@ -36,6 +104,7 @@ export class RPCHandler implements HandlerInterface {
 
   constructor(config: HandlerConstructorConfig) {
     this._networkId = config.networkId;
+    this._rpcFilter = config.rpcFilter;
     this._networkRpcs = this._filterRpcs(networkRpcs[this._networkId].rpcs, config.tracking || "yes");
     this._networkName = networkIds[this._networkId];
 
@@ -46,6 +115,12 @@ export class RPCHandler implements HandlerInterface {
     this.getProvider.bind(this);
     this.getFastestRpcProvider.bind(this);
     this.getLatencies.bind(this);
+    this.getLatencyStats.bind(this);
+    this.getRankedLatencies.bind(this);
+    this.getFailures.bind(this);
+    this.getQuarantinedRpcs.bind(this);
+    this.getCircuitStates.bind(this);
+    this.getRateLimitedRpcs.bind(this);
     this.getRefreshLatencies.bind(this);
     this.getCacheRefreshCycles.bind(this);
     this.getRuntimeRpcs.bind(this);
@@ -53,6 +128,18 @@ export class RPCHandler implements HandlerInterface {
     this.getNetworkName.bind(this);
     this.getNetworkRpcs.bind(this);
     this.testRpcPerformance.bind(this);
+    this.updateLatencies.bind(this);
+    this.switchProvider.bind(this);
+    this.getActiveRpcUrl.bind(this);
+    this.send.bind(this);
+    this.sendBatch.bind(this);
+    this.getBatchUnsupportedRpcs.bind(this);
+    this.getEip1193Provider.bind(this);
+    this.getCapableRpcProvider.bind(this);
+    this.probeCapabilities.bind(this);
+    this.getCapabilities.bind(this);
+    this.destroy.bind(this);
+    this.redact.bind(this);
   }
 
   public async getFastestRpcProvider(): Promise<JsonRpcProvider> {
@@ -91,7 +178,11 @@ export class RPCHandler implements HandlerInterface {
     if (this.proxySettings.disabled) return provider;
 
     return new Proxy(provider, {
-      get: function (target: JsonRpcProvider, prop: keyof JsonRpcProvider) {
+      get: function (proxied: JsonRpcProvider, prop: keyof JsonRpcProvider) {
+        // providers returned by a race follow the active provider so it can be switched behind the proxy
+        const target = handler._racedProviders.has(proxied) && handler._activeProvider ? handler._activeProvider : proxied;
+        const requirements = handler._providerRequirements.get(proxied);
+
         // if it's not a function, return the property
         if (typeof target[prop] !== "function") {
           return target[prop];
@@ -99,35 +190,64 @@ export class RPCHandler implements HandlerInterface {
         if (typeof target[prop] === "function") {
           // eslint-disable-next-line sonarjs/cognitive-complexity -- 16/15 is acceptable
           return async function (...args: unknown[]) {
-            try {
-              // responses are the value result of the method call if they are successful
-              const response = await (target[prop] as (...args: unknown[]) => Promise<unknown>)(...args);
+            const startTime = Date.now();
+            const retryPolicy = resolveRetryPolicy(handler.proxySettings.retryPolicy, handler.proxySettings.retryDelay);
+
+            const quorum = handler.proxySettings.quorum;
+            if (quorum && isQuorumCall(prop, args, quorum.methods)) {
+              return withDeadline(handler._callWithQuorum(prop, args), prop, startTime, retryPolicy.deadline);
+            }
 
-              if (response) {
+            if (handler.proxySettings.broadcast && isBroadcastCall(prop, args)) {
+              return withDeadline(handler._broadcast(target, prop, args), prop, startTime, retryPolicy.deadline);
+            }
+
+            // skip the currently connected provider if its circuit is open or it does not support the call
+            if (handler._canServe(target.connection.url, prop, args, requirements)) {
+              try {
+                handler._rateLimiter.takeToken(target.connection.url);
+                // responses are the value result of the method call if they are successful
+                const response = await withDeadline((target[prop] as (...args: unknown[]) => Promise<unknown>)(...args), prop, startTime, retryPolicy.deadline);
+                handler._circuitBreaker?.recordSuccess(target.connection.url);
+
+                if (response) {
+                  handler.log(
+                    "verbose",
+                    `[${handler.proxySettings.moduleName}] Successfully called provider method ${prop}`,
+                    handler.metadataMaker(response, prop as string, args, { rpc: target.connection.url })
+                  );
+                  return response;
+                }
+              } catch (e) {
+                if (e instanceof DeadlineExceededError) {
+                  throw handler._deadlineExceeded(e, prop, args);
+                }
+                const isDeterministic = classifyError(e) === "deterministic";
+                // first attempt with currently connected provider
                 handler.log(
-                  "verbose",
-                  `[${handler.proxySettings.moduleName}] Successfully called provider method ${prop}`,
-                  handler.metadataMaker(response, prop as string, args, { rpc: target.connection.url })
+                  "error",
+                  `[${handler.proxySettings.moduleName}] Failed to call provider method ${prop}${isDeterministic ? "" : ", retrying..."}`,
+                  handler.metadataMaker(e, prop as string, args, { rpc: target.connection.url })
                 );
-                return response;
+
+                // every other RPC would fail the same way, the RPC itself is healthy
+                if (isDeterministic) {
+                  throw handler._deterministicError(e, prop, args);
+                }
+                handler._recordFailure(target.connection.url, e);
               }
-            } catch (e) {
-              // first attempt with currently connected provider
-              handler.log(
-                "error",
-                `[${handler.proxySettings.moduleName}] Failed to call provider method ${prop}, retrying...`,
-                handler.metadataMaker(e, prop as string, args, { rpc: target.connection.url })
-              );
             }
 
-            const latencies: Record<string, number> = handler.getLatencies();
-            const sortedLatencies = Object.entries(latencies).sort((a, b) => a[1] - b[1]);
+            const sortedLatencies = await handler._getServableLatencies(prop, args, startTime, retryPolicy.deadline, requirements);
 
             if (!sortedLatencies.length) {
               throw handler.log(
                 "fatal",
                 `[${handler.proxySettings.moduleName}] ${NO_RPCS_AVAILABLE}`,
-                handler.metadataMaker(new Error(NO_RPCS_AVAILABLE), "createProviderProxy", args, { sortedLatencies, networks: handler._networkRpcs })
+                handler.metadataMaker(new Error(NO_RPCS_AVAILABLE), "createProviderProxy", args, {
+                  sortedLatencies,
+                  networks: getRpcUrls(handler._networkRpcs),
+                })
               );
             }
 
@@ -141,19 +261,36 @@ export class RPCHandler implements HandlerInterface {
             let loops = handler._proxySettings.retryCount;
             let newProvider: JsonRpcProvider;
             let res: null | unknown = null;
+            let hasResponded = false;
+            let lastError: unknown = null;
+            let retryDelay = retryPolicy.baseDelay ?? 0;
 
             while (loops > 0) {
+              // RPCs rate-limited or out of tokens after the previous loop are waited for rather than all skipped
+              await handler._waitForRpcs(
+                sortedLatencies.map(([rpc]) => rpc.split("__")[1]),
+                prop,
+                startTime,
+                retryPolicy.deadline
+              );
+
               for (const [rpc] of sortedLatencies) {
+                const rpcUrl = rpc.split("__")[1];
+                // the circuit may have opened during a previous loop
+                if (!handler._canServe(rpcUrl, prop, args, requirements)) continue;
+
                 handler.log("debug", `[${handler.proxySettings.moduleName}] Connected to: ${rpc}`);
                 try {
-                  newProvider = new JsonRpcProvider(
-                    {
-                      url: rpc.split("__")[1],
-                      skipFetchSetup: true,
-                    },
-                    Number(handler._networkId)
-                  );
-                  const response = (await (newProvider[prop] as (...args: unknown[]) => Promise<unknown>)(...args)) as { result?: unknown; error?: unknown };
+                  handler._rateLimiter.takeToken(rpcUrl);
+                  newProvider = handler._createProvider(rpcUrl);
+                  const response = (await withDeadline(
+                    (newProvider[prop] as (...args: unknown[]) => Promise<unknown>)(...args),
+                    prop,
+                    startTime,
+                    retryPolicy.deadline
+                  )) as { result?: unknown; error?: unknown };
+                  hasResponded = true;
+                  handler._circuitBreaker?.recordSuccess(rpcUrl);
 
                   if (response) {
                     handler.log(
@@ -164,8 +301,18 @@ export class RPCHandler implements HandlerInterface {
                     res = response;
 
                     loops = 0;
+                    // never repeat a call which has already succeeded, e.g a transaction
+                    break;
                   }
                 } catch (e) {
+                  if (e instanceof DeadlineExceededError) {
+                    throw handler._deadlineExceeded(e, prop, args);
+                  }
+                  if (classifyError(e) === "deterministic") {
+                    throw handler._deterministicError(e, prop, args);
+                  }
+                  handler._recordFailure(rpcUrl, e);
+                  lastError = e;
                   // last loop throw error
                   if (loops === 1) {
                     handler.log(
@@ -175,11 +322,19 @@ export class RPCHandler implements HandlerInterface {
                     );
                     throw e;
                   } else {
-                    handler.log("debug", `[${handler.proxySettings.moduleName}] Retrying in ${handler._proxySettings.retryDelay}ms...`);
+                    // the backoff grows with each pass over the RPCs rather than each RPC failing
+                    retryDelay = getRetryDelay(retryPolicy, handler._proxySettings.retryCount - loops + 1, retryDelay);
+
+                    // don't bother waiting if the retry could never finish in time
+                    if (retryPolicy.deadline !== undefined && Date.now() - startTime + retryDelay >= retryPolicy.deadline) {
+                      throw handler._deadlineExceeded(new DeadlineExceededError(prop, retryPolicy.deadline), prop, args);
+                    }
+
+                    handler.log("debug", `[${handler.proxySettings.moduleName}] Retrying in ${retryDelay}ms...`);
                     handler.log("debug", `[${handler.proxySettings.moduleName}] Call number: ${handler._proxySettings.retryCount - loops + 1}`);
 
                     // delays here should be kept rather small
-                    await new Promise((resolve) => setTimeout(resolve, handler._proxySettings.retryDelay));
+                    await new Promise((resolve) => setTimeout(resolve, retryDelay));
                   }
                 }
               }
@@ -189,6 +344,11 @@ export class RPCHandler implements HandlerInterface {
               loops--;
             }
 
+            // every RPC was skipped in the later loops, e.g their circuits opened during the first one
+            if (!hasResponded) {
+              throw handler._noRpcAvailable(lastError, prop, args);
+            }
+
             return res;
           };
         }
@@ -198,6 +358,321 @@ export class RPCHandler implements HandlerInterface {
     });
   }
 
+  // rethrows the last error an RPC failed with, if any did
+  private _noRpcAvailable(lastError: unknown, prop: string, args: unknown[]): unknown {
+    const error = lastError ?? new Error(NO_RPCS_AVAILABLE);
+    this.log("fatal", `[${this.proxySettings.moduleName}] ${NO_RPCS_AVAILABLE}`, this.metadataMaker(error, prop, args));
+    return error;
+  }
+
+  private _deadlineExceeded(error: DeadlineExceededError, prop: string, args: unknown[]): DeadlineExceededError {
+    this.log("fatal", `[${this.proxySettings.moduleName}] ${error.message}`, this.metadataMaker(error, prop, args, { deadline: error.deadline }));
+    return error;
+  }
+
+  // logs and returns the original error so the caller receives it untouched
+  private _deterministicError(error: unknown, prop: string, args: unknown[]): unknown {
+    this.log(
+      "fatal",
+      `[${this.proxySettings.moduleName}] Provider method ${prop} failed with a deterministic error, not retrying`,
+      this.metadataMaker(error, prop, args)
+    );
+    return error;
+  }
+
+  private _setActiveProvider(rpcUrl: string): JsonRpcProvider {
+    this._activeProvider = this._createProvider(rpcUrl);
+    this._racedProviders.add(this._activeProvider);
+    return this._activeProvider;
+  }
+
+  // open circuits and rate-limited RPCs cooling down
+  private _isRpcAvailable(rpcUrl: string): boolean {
+    return (this._circuitBreaker?.isAvailable(rpcUrl) ?? true) && !this._rateLimiter.isCoolingDown(rpcUrl);
+  }
+
+  // RPCs probed without support for the method, or short of the provider's requirements, are skipped too
+  private _supportsCall(rpcUrl: string, prop: keyof JsonRpcProvider, args: unknown[], requirements?: RpcRequirements): boolean {
+    const method = prop === "send" ? String(args[0]) : prop;
+    const capabilities = this._capabilities[rpcUrl];
+
+    return this._isRpcAvailable(rpcUrl) && supportsMethod(capabilities, method) && (!requirements || meetsRequirements(capabilities, requirements));
+  }
+
+  private _canServe(rpcUrl: string, prop: keyof JsonRpcProvider, args: unknown[], requirements?: RpcRequirements): boolean {
+    return this._supportsCall(rpcUrl, prop, args, requirements) && this._rateLimiter.hasToken(rpcUrl);
+  }
+
+  // RPCs cooling down or out of tokens are skipped while another one is not, otherwise the call waits for the first of them
+  private async _getServableLatencies(
+    prop: keyof JsonRpcProvider,
+    args: unknown[],
+    startTime: number,
+    deadline?: number,
+    requirements?: RpcRequirements
+  ): Promise<[string, number][]> {
+    await this._waitForCooldown(this._getRankedRpcUrls(), prop, startTime, deadline);
+
+    const sortedLatencies = this.getRankedLatencies().filter(([rpc]) => this._supportsCall(rpc.split("__")[1], prop, args, requirements));
+    await this._waitForToken(
+      sortedLatencies.map(([rpc]) => rpc.split("__")[1]),
+      prop,
+      startTime,
+      deadline
+    );
+    return sortedLatencies;
+  }
+
+  private async _waitForRpcs(rpcUrls: string[], method: string, startTime: number, deadline?: number): Promise<void> {
+    await this._waitForCooldown(rpcUrls, method, startTime, deadline);
+    await this._waitForToken(rpcUrls, method, startTime, deadline);
+  }
+
+  // a cooldown longer than rateLimit.maxWait is not waited for, the call fails with the rate-limit error instead
+  private async _waitForCooldown(rpcUrls: string[], method: string, startTime: number, deadline?: number): Promise<void> {
+    const wait = this._rateLimiter.getCooldownWait(rpcUrls);
+    if (wait) {
+      await this._wait(wait, "Every RPC is rate-limited", method, startTime, deadline);
+    }
+  }
+
+  private async _waitForToken(rpcUrls: string[], method: string, startTime: number, deadline?: number): Promise<void> {
+    await this._wait(this._rateLimiter.getTokenWait(rpcUrls), "Every RPC is out of tokens", method, startTime, deadline);
+  }
+
+  // waits which would outlast the deadline throw right away
+  private async _wait(wait: number, reason: string, method: string, startTime: number, deadline?: number): Promise<void> {
+    if (wait <= 0) return;
+
+    if (deadline !== undefined && Date.now() - startTime + wait >= deadline) {
+      throw this._deadlineExceeded(new DeadlineExceededError(method, deadline), method, []);
+    }
+
+    this.log("debug", `[${this.proxySettings.moduleName}] ${reason}, waiting ${wait}ms...`);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  // the fastest RPCs which have not failed in this loop of a batch
+  private async _getBatchRpcUrls(failedRpcs: Set<string>, startTime: number, deadline?: number): Promise<string[]> {
+    await this._waitForRpcs(
+      this._getRankedRpcUrls().filter((rpcUrl) => !failedRpcs.has(rpcUrl)),
+      "sendBatch",
+      startTime,
+      deadline
+    );
+    return this._getSortedRpcUrls().filter((rpcUrl) => !failedRpcs.has(rpcUrl) && this._rateLimiter.hasToken(rpcUrl));
+  }
+
+  /**
+   * Sends the pending requests in batches, each to the next of the RPCs,
+   * and returns the requests which failed with a transport error
+   */
+  private async _sendBatchRound(
+    requests: BatchRequest[],
+    pending: number[],
+    rpcUrls: string[],
+    settled: SettledRequest[],
+    failedRpcs: Set<string>
+  ): Promise<number[]> {
+    const batches = chunkBatch(pending, this.proxySettings.batch?.maxSize ?? DEFAULT_BATCH_SIZE);
+    const retries: number[] = [];
+
+    await Promise.all(
+      batches.map(async (indexes, batchIndex) => {
+        const batch = indexes.map((index) => requests[index]);
+        const rpcUrl = rpcUrls[batchIndex % rpcUrls.length];
+        const results = await this._sendBatchTo(rpcUrl, batch);
+
+        results.forEach((result, i) => {
+          settled[indexes[i]] = result;
+          if ("error" in result && classifyError(result.error) === "transport") {
+            retries.push(indexes[i]);
+            failedRpcs.add(rpcUrl);
+          }
+        });
+      })
+    );
+
+    return retries.sort((a, b) => a - b);
+  }
+
+  // RPCs which rejected a batch, and single requests, are sent the requests one by one
+  private async _sendBatchTo(rpcUrl: string, requests: BatchRequest[]): Promise<SettledRequest[]> {
+    const { headers, timeout } = this._getRequestOptions(rpcUrl);
+    let results: SettledRequest[] | null = null;
+
+    this._rateLimiter.takeToken(rpcUrl);
+
+    if (requests.length > 1 && !this._batchUnsupportedRpcs.has(rpcUrl)) {
+      results = await RPCService.callBatch(rpcUrl, requests, timeout, headers).catch((err: unknown) => this._onBatchError(rpcUrl, requests, err));
+    }
+
+    results ??= await Promise.all(
+      requests.map(({ method, params }) =>
+        RPCService.call(rpcUrl, method, params ?? [], timeout, headers).then(
+          (result) => ({ result }),
+          (error: unknown) => ({ error })
+        )
+      )
+    );
+
+    const failure = results.find((result): result is { error: unknown } => "error" in result && classifyError(result.error) === "transport");
+    if (failure) {
+      this._recordFailure(rpcUrl, failure.error);
+    } else {
+      this._circuitBreaker?.recordSuccess(rpcUrl);
+    }
+
+    return results;
+  }
+
+  // null once the RPC is known not to support batches, so the requests are resent one by one
+  private _onBatchError(rpcUrl: string, requests: BatchRequest[], error: unknown): SettledRequest[] | null {
+    if (!(error instanceof BatchNotSupportedError)) {
+      return requests.map(() => ({ error }));
+    }
+
+    this._batchUnsupportedRpcs.add(rpcUrl);
+    this.log("info", `[${this.proxySettings.moduleName}] ${error.message}, sending its requests one by one`, { rpcUrl });
+    return null;
+  }
+
+  // the lowest head of the RPCs, which each of them can serve
+  private async _getQuorumBlockNumber(rpcUrls: string[]): Promise<number | null> {
+    const blockNumbers = await Promise.all(
+      rpcUrls.map((rpcUrl) =>
+        this._createProvider(rpcUrl)
+          .send("eth_blockNumber", [])
+          .then(Number, () => NaN)
+      )
+    );
+    const heights = blockNumbers.filter((blockNumber) => Number.isSafeInteger(blockNumber));
+
+    return heights.length ? Math.min(...heights) : null;
+  }
+
+  // circuits, rate limits and tokens are accounted for like in the proxy's failover
+  private async _callQuorumRpc(rpcUrl: string, prop: keyof JsonRpcProvider, args: unknown[]): Promise<unknown> {
+    this._rateLimiter.takeToken(rpcUrl);
+
+    try {
+      const provider = this._createProvider(rpcUrl);
+      const response = await (provider[prop] as (...args: unknown[]) => Promise<unknown>)(...args);
+      this._circuitBreaker?.recordSuccess(rpcUrl);
+      return response;
+    } catch (err) {
+      if (classifyError(err) === "transport") {
+        this._recordFailure(rpcUrl, err);
+      }
+      throw err;
+    }
+  }
+
+  private _recordFailure(rpcUrl: string, error: unknown): void {
+    this._circuitBreaker?.recordFailure(rpcUrl);
+
+    const rateLimit = getRateLimit(error);
+    if (rateLimit) {
+      const cooldown = this._rateLimiter.recordRateLimit(rpcUrl, rateLimit.retryAfter);
+      this.log("info", `[${this.proxySettings.moduleName}] Rate limited, skipping the RPC for ${cooldown}ms`, { rpcUrl });
+    }
+  }
+
+  private _getRequestOptions(rpcUrl: string): { headers: object; timeout: number } {
+    const { headers, timeout } = this._rpcOptions[rpcUrl] ?? {};
+    return { headers: { ...RPC_HEADER, ...headers }, timeout: timeout ?? this._rpcTimeout };
+  }
+
+  private _createProvider(rpcUrl: string): JsonRpcProvider {
+    if (isWebSocketUrl(rpcUrl)) {
+      return this._getWebSocketProvider(rpcUrl);
+    }
+
+    const { headers, timeout } = this._rpcOptions[rpcUrl] ?? {};
+    // ethers would retry a 429 on the same RPC, the proxy cools it down and fails over instead
+    return new JsonRpcProvider(
+      { url: rpcUrl, skipFetchSetup: true, headers, timeout, throttleCallback: () => Promise.resolve(false) },
+      Number(this._networkId)
+    );
+  }
+
+  // connections are reused across calls and only reopened once dropped
+  private _getWebSocketProvider(rpcUrl: string): WebSocketProvider {
+    const cached = this._webSocketProviders[rpcUrl];
+    if (cached && isWebSocketOpen(cached)) return cached;
+
+    this._webSocketProviders[rpcUrl] = createWebSocketProvider(rpcUrl, Number(this._networkId));
+    return this._webSocketProviders[rpcUrl];
+  }
+
+  private _getRankedRpcUrls(): string[] {
+    return this.getRankedLatencies().map(([rpc]) => rpc.split("__")[1]);
+  }
+
+  // the fastest first, skipping open circuits
+  private _getSortedRpcUrls(): string[] {
+    return this._getRankedRpcUrls().filter((rpcUrl) => this._isRpcAvailable(rpcUrl));
+  }
+
+  /**
+   * Sends a signed transaction to the fastest `broadcast.providers` RPCs in parallel,
+   * resolving as soon as any of them accepts it instead of resending it in sequence
+   */
+  private async _broadcast(target: JsonRpcProvider, prop: keyof JsonRpcProvider, args: unknown[]): Promise<unknown> {
+    const { providers } = this.proxySettings.broadcast as BroadcastSettings;
+    const signedTransaction = prop === "send" ? (args[1] as string[])[0] : await (args[0] as string | Promise<string>);
+    const rpcUrls = this._getSortedRpcUrls().slice(0, providers);
+
+    try {
+      const hash = await broadcastTransaction(signedTransaction, rpcUrls, (rpcUrl) =>
+        this._createProvider(rpcUrl).send("eth_sendRawTransaction", [signedTransaction])
+      );
+
+      this.log("verbose", `[${this.proxySettings.moduleName}] Broadcast transaction ${hash}`, this.metadataMaker(hash, prop, args, { rpcUrls }));
+
+      if (prop === "send") return hash;
+
+      // mirrors BaseProvider.sendTransaction
+      const tx = target.formatter.transaction(signedTransaction);
+      if (tx.confirmations == null) {
+        tx.confirmations = 0;
+      }
+      return target._wrapTransaction(tx, hash);
+    } catch (e) {
+      this.log("fatal", `[${this.proxySettings.moduleName}] Failed to broadcast transaction`, this.metadataMaker(e, prop, args, { rpcUrls }));
+      throw e;
+    }
+  }
+
+  /**
+   * Sends a read call to the fastest `quorum.providers` RPCs and
+   * throws a QuorumDisagreementError unless `quorum.threshold` of them agree
+   */
+  private async _callWithQuorum(prop: keyof JsonRpcProvider, args: unknown[]): Promise<unknown> {
+    const { providers, threshold } = this.proxySettings.quorum as QuorumSettings;
+    const method = prop === "send" ? String(args[0]) : prop;
+    const rpcUrls = this._getSortedRpcUrls()
+      .filter((rpcUrl) => this._canServe(rpcUrl, prop, args))
+      .slice(0, providers);
+
+    try {
+      // RPCs at different heights would disagree about the latest block
+      const blockNumber = readsLatestBlock(prop, args) ? await this._getQuorumBlockNumber(rpcUrls) : null;
+      const pinnedArgs = blockNumber === null ? args : pinBlockTag(prop, args, blockNumber);
+      const response = await callWithQuorum(method, rpcUrls, threshold, (rpcUrl) => this._callQuorumRpc(rpcUrl, prop, pinnedArgs));
+
+      this.log(
+        "verbose",
+        `[${this.proxySettings.moduleName}] Quorum reached for provider method ${method}`,
+        this.metadataMaker(response, prop, args, { rpcUrls, threshold })
+      );
+      return response;
+    } catch (e) {
+      this.log("fatal", `[${this.proxySettings.moduleName}] Quorum not reached for provider method ${method}`, this.metadataMaker(e, prop, args, { rpcUrls }));
+      throw e;
+    }
+  }
+
   /**
    * runtimeRpcs are prefixed with the networkId so
    * they need to be stripped before being used
@@ -212,7 +687,18 @@ export class RPCHandler implements HandlerInterface {
     });
   }
 
-  public async testRpcPerformance(): Promise<JsonRpcProvider> {
+  /**
+   * Re-races the RPCs and updates the latencies without changing the active provider
+   */
+  public async updateLatencies(): Promise<void> {
+    // the stored race results must be in before deciding what to race
+    await this._storageLoaded;
+
+    // another tab is racing, its results are applied by _applySharedResults
+    if (this._tabCoordinator && !(await this._tabCoordinator.acquireLease()) && (await this._tabCoordinator.waitForResults())) {
+      return;
+    }
+
     const shouldRefreshRpcs =
       Object.keys(this._latencies).filter((rpc) => rpc.startsWith(`${this._networkId}__`)).length <= 1 || this._refreshLatencies >= this._cacheRefreshCycles;
 
@@ -230,7 +716,17 @@ export class RPCHandler implements HandlerInterface {
 
     await this._testRpcPerformance();
 
-    const fastestRpcUrl = await RPCService.findFastestRpc(this._latencies, this._networkId);
+    this._tabCoordinator?.publish({
+      latencies: this._latencies,
+      latencyStats: this._latencyStats,
+      rpcUrl: await RPCService.findFastestRpc(this._latencies, this._networkId, this._latencyStats, this._getRankBy()),
+    });
+  }
+
+  public async testRpcPerformance(): Promise<JsonRpcProvider> {
+    await this.updateLatencies();
+
+    const fastestRpcUrl = await RPCService.findFastestRpc(this._latencies, this._networkId, this._latencyStats, this._getRankBy());
 
     if (!fastestRpcUrl) {
       throw this.log(
@@ -240,12 +736,7 @@ export class RPCHandler implements HandlerInterface {
       );
     }
 
-    this._provider = this.createProviderProxy(new JsonRpcProvider({ url: fastestRpcUrl, skipFetchSetup: true }, Number(this._networkId)), this);
-
-    if (this._autoStorage) {
-      StorageService.setLatencies(this._env, this._latencies);
-      StorageService.setRefreshLatencies(this._env, this._refreshLatencies);
-    }
+    this._provider = this.createProviderProxy(this._setActiveProvider(fastestRpcUrl), this);
 
     if (!this._provider) {
       throw this.log(
@@ -261,13 +752,185 @@ export class RPCHandler implements HandlerInterface {
     return this._provider;
   }
 
+  /**
+   * Points every provider returned by a race at another RPC
+   */
+  public switchProvider(rpcUrl: string): void {
+    const previousRpcUrl = this.getActiveRpcUrl();
+    const provider = this._setActiveProvider(rpcUrl);
+
+    if (!this._provider) {
+      this._provider = this.createProviderProxy(provider, this);
+    }
+
+    this.log("info", `[${this.proxySettings.moduleName}] Switched provider`, { from: previousRpcUrl, to: rpcUrl });
+  }
+
+  /**
+   * Sends a JSON-RPC request through the proxied provider, racing the RPCs first if needed.
+   * This is the entry point for the viem, ethers v6 and EIP-1193 adapters.
+   */
+  public async send(method: string, params: unknown[] = []): Promise<unknown> {
+    const provider = this._provider ?? (await this.getFastestRpcProvider());
+    return provider.send(method, params);
+  }
+
+  /**
+   * Sends JSON-RPC requests in batches of `batch.maxSize`, spread over the fastest RPCs, and resolves with their responses in order.
+   * RPCs rejecting batches are sent the requests one by one and only the requests failing with a transport error
+   * are retried on the next fastest RPC, so a response only holds an error once it is deterministic or every retry failed.
+   * Broadcasts, quorum reads and probed methods such as debug_* are sent through the provider proxy instead
+   */
+  public async sendBatch(requests: BatchRequest[]): Promise<BatchResponse[]> {
+    if (!this._provider) {
+      await this.getFastestRpcProvider();
+    }
+
+    const settled: SettledRequest[] = requests.map(() => ({ error: new Error(NO_RPCS_AVAILABLE) }));
+    const indexes = requests.map((request, index) => index);
+    const proxied = indexes.filter((index) => this._isProxiedRequest(requests[index]));
+
+    const [pending] = await Promise.all([
+      this._sendBatches(
+        requests,
+        indexes.filter((index) => !proxied.includes(index)),
+        settled
+      ),
+      Promise.all(proxied.map(async (index) => (settled[index] = await this._sendProxied(requests[index])))),
+    ]);
+
+    if (pending.length) {
+      this.log(
+        "error",
+        `[${this.proxySettings.moduleName}] Failed to send ${pending.length} of ${requests.length} batched requests`,
+        this.metadataMaker(
+          settled[pending[0]],
+          "sendBatch",
+          pending.map((index) => requests[index].method)
+        )
+      );
+    }
+
+    return settled.map(toBatchResponse);
+  }
+
+  // requests which the proxy broadcasts, checks with a quorum or only sends to RPCs supporting their method
+  private _isProxiedRequest({ method, params }: BatchRequest): boolean {
+    const { broadcast, quorum } = this.proxySettings;
+    const args = [method, params ?? []];
+
+    return isProbedMethod(method) || (!!broadcast && isBroadcastCall("send", args)) || (!!quorum && isQuorumCall("send", args, quorum.methods));
+  }
+
+  private _sendProxied({ method, params }: BatchRequest): Promise<SettledRequest> {
+    return (this._provider as JsonRpcProvider).send(method, params ?? []).then(
+      (result: unknown) => ({ result }),
+      (error: unknown) => ({ error })
+    );
+  }
+
+  // resolves with the requests which every retry failed to send
+  private async _sendBatches(requests: BatchRequest[], indexes: number[], settled: SettledRequest[]): Promise<number[]> {
+    const startTime = Date.now();
+    const retryPolicy = resolveRetryPolicy(this.proxySettings.retryPolicy, this.proxySettings.retryDelay);
+    const failedRpcs = new Set<string>(); // skipped until every RPC has failed, which starts the next loop
+    let pending = indexes;
+    let loops = this._proxySettings.retryCount;
+    let retryDelay = retryPolicy.baseDelay ?? 0;
+
+    while (pending.length) {
+      try {
+        const rpcUrls = await this._getBatchRpcUrls(failedRpcs, startTime, retryPolicy.deadline);
+
+        if (!rpcUrls.length) {
+          if (!failedRpcs.size || --loops === 0) break;
+          failedRpcs.clear();
+          continue;
+        }
+
+        pending = await this._sendBatchRound(requests, pending, rpcUrls, settled, failedRpcs);
+        if (!pending.length) break;
+
+        retryDelay = getRetryDelay(retryPolicy, this._proxySettings.retryCount - loops + 1, retryDelay);
+        await this._wait(retryDelay, `Retrying ${pending.length} batched requests`, "sendBatch", startTime, retryPolicy.deadline);
+      } catch (err) {
+        // only waits which would outlast the deadline throw
+        pending.forEach((index) => (settled[index] = { error: err }));
+        break;
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * The RPCs which rejected a batch request, see `handler.sendBatch()`
+   */
+  public getBatchUnsupportedRpcs(): string[] {
+    return Array.from(this._batchUnsupportedRpcs);
+  }
+
+  /**
+   * A read-only EIP-1193 provider for wallet kits and other consumers, created once per handler
+   */
+  public getEip1193Provider(): Eip1193Provider {
+    if (!this._eip1193Provider) {
+      this._eip1193Provider = new Eip1193Provider(this);
+    }
+
+    return this._eip1193Provider;
+  }
+
+  /**
+   * A provider for the fastest RPC meeting the requirements, e.g `{ isArchive: true }`,
+   * which only fails over to RPCs meeting them too. RPCs not probed yet are probed first
+   */
+  public async getCapableRpcProvider(requirements: RpcRequirements): Promise<JsonRpcProvider> {
+    if (!this.getRankedLatencies().length) {
+      await this.updateLatencies();
+    }
+    await this.probeCapabilities();
+
+    const rpcUrl = this._getSortedRpcUrls().find((url) => meetsRequirements(this._capabilities[url], requirements));
+
+    if (!rpcUrl) {
+      throw this.log(
+        "fatal",
+        `[${this.proxySettings.moduleName}] ${NO_CAPABLE_RPCS}`,
+        this.metadataMaker(new Error(NO_CAPABLE_RPCS), "getCapableRpcProvider", [requirements], { capabilities: this._capabilities })
+      );
+    }
+
+    const provider = this._createProvider(rpcUrl);
+    this._providerRequirements.set(provider, requirements);
+    return this.createProviderProxy(provider, this);
+  }
+
+  /**
+   * Probes the ranked RPCs which have not been probed yet, see `probeCapabilities` in the config
+   */
+  public async probeCapabilities(): Promise<Record<string, RpcCapabilities>> {
+    // runs are chained so an RPC is never probed twice at once
+    this._capabilityProbe = this._capabilityProbe.then(() => this._probeNewRpcs());
+    await this._capabilityProbe;
+    return this._capabilities;
+  }
+
+  public getCapabilities(): Record<string, RpcCapabilities> {
+    return this._capabilities;
+  }
+
+  public getActiveRpcUrl(): string | null {
+    return this._activeProvider?.connection.url ?? null;
+  }
+
   public getProvider(): JsonRpcProvider {
     if (!this._provider) {
       throw this.log(
         "fatal",
         `[${this.proxySettings.moduleName}] Provider is not initialized`,
         this.metadataMaker(new Error("Provider is not initialized"), "getProvider", [], {
-          networkRpcs: this._networkRpcs,
+          networkRpcs: getRpcUrls(this._networkRpcs),
           runtimeRpcs: this._runtimeRpcs,
           latencies: this._latencies,
         })
@@ -287,6 +950,31 @@ export class RPCHandler implements HandlerInterface {
     return RPCHandler._instance;
   }
 
+  /**
+   * Closes the WebSocket providers and the tab coordination channel, and stops the HealthMonitors of the handler.
+   * The handler should not be used afterwards
+   */
+  public async destroy(): Promise<void> {
+    this._destroyListeners.forEach((listener) => listener());
+    this._destroyListeners.clear();
+
+    this._tabCoordinator?.close();
+    this._tabCoordinator = null;
+
+    const webSocketProviders = Object.values(this._webSocketProviders);
+    this._webSocketProviders = {};
+    await Promise.all(webSocketProviders.map((provider) => provider.destroy()));
+
+    if (RPCHandler._instance === this) {
+      RPCHandler._instance = null;
+    }
+  }
+
+  // e.g a HealthMonitor stopping its timer
+  public onDestroy(listener: () => void): void {
+    this._destroyListeners.add(listener);
+  }
+
   public clearInstance(): void {
     RPCHandler._instance = null;
   }
@@ -311,6 +999,44 @@ export class RPCHandler implements HandlerInterface {
     return this._latencies;
   }
 
+  public getLatencyStats(): Record<string, LatencyStats> {
+    return this._latencyStats;
+  }
+
+  /**
+   * This network's RPCs that passed the latest race, fastest first, ranked on `latencyStats.rankBy`
+   */
+  public getRankedLatencies(): [string, number][] {
+    return rankLatencies(this._latencies, this._networkId, this._latencyStats, this._getRankBy());
+  }
+
+  public getFailures(): Record<string, RpcFailureReason> {
+    return this._failures;
+  }
+
+  /**
+   * RPCs which reported a chain ID other than networkId,
+   * they are excluded from every race for the lifetime of the handler
+   */
+  public getQuarantinedRpcs(): Record<string, number> {
+    return Object.fromEntries(Object.entries(this._chainIds).filter(([rpcUrl]) => this._isQuarantined(rpcUrl)));
+  }
+
+  /**
+   * The circuit state of every RPC which has failed since it last succeeded,
+   * always empty unless proxySettings.circuitBreaker is set
+   */
+  public getCircuitStates(): Record<string, CircuitState> {
+    return this._circuitBreaker?.getStates() ?? {};
+  }
+
+  /**
+   * The ms left before each rate-limited RPC is used again
+   */
+  public getRateLimitedRpcs(): Record<string, number> {
+    return this._rateLimiter.getRateLimitedRpcs();
+  }
+
   public getRefreshLatencies(): number {
     return this._refreshLatencies;
   }
@@ -320,20 +1046,196 @@ export class RPCHandler implements HandlerInterface {
   }
 
   private async _testRpcPerformance(): Promise<void> {
-    const { latencies, runtimeRpcs } = await RPCService.testRpcPerformance(
-      this._networkId,
-      this._latencies,
-      this._runtimeRpcs,
-      { "Content-Type": "application/json" },
-      this._rpcTimeout
-    );
+    // runtime and stored RPCs bypass the networkRpcs filtering
+    this._runtimeRpcs = this._runtimeRpcs.filter((rpcUrl) => this._isRpcAllowed(rpcUrl) && !this._isQuarantined(rpcUrl));
+    this._dropDeniedLatencies();
+
+    // open circuits sit out this race but stay in line for the next one
+    const openRpcs = this._runtimeRpcs.filter((rpcUrl) => !this._isRpcAvailable(rpcUrl));
+    openRpcs.forEach((rpcUrl) => delete this._latencies[`${this._networkId}__${rpcUrl}`]);
+    this._runtimeRpcs = this._runtimeRpcs.filter((rpcUrl) => !openRpcs.includes(rpcUrl));
+
+    // chain IDs are verified alongside the race so only never before seen RPCs add any cost
+    const [{ latencies, runtimeRpcs, failures, retryAfter, blockHeights }] = await Promise.all([
+      RPCService.testRpcPerformance(this._networkId, this._latencies, this._runtimeRpcs, RPC_HEADER, this._rpcTimeout, null, this._rpcOptions),
+      this._verifyChainId ? this._verifyChainIds([...this._runtimeRpcs]) : Promise.resolve(),
+    ]);
+
+    for (const rpcUrl of [...runtimeRpcs]) {
+      if (this._isQuarantined(rpcUrl)) {
+        delete latencies[`${this._networkId}__${rpcUrl}`];
+        failures[`${this._networkId}__${rpcUrl}`] = "wrong-chain";
+        RPCService._removeRuntimeRpc(runtimeRpcs, rpcUrl);
+      }
+    }
 
-    this._runtimeRpcs = runtimeRpcs;
+    if (this._maxBlockLag !== null) {
+      this._dropLaggingRpcs(latencies, runtimeRpcs, failures, blockHeights, this._maxBlockLag);
+    }
+
+    Object.keys(failures)
+      .filter((rpc) => failures[rpc] === "rate-limited")
+      .forEach((rpc) => this._rateLimiter.recordRateLimit(rpc.split("__")[1], retryAfter[rpc] ?? null));
+
+    if (this._circuitBreaker) {
+      runtimeRpcs.forEach((rpcUrl) => this._circuitBreaker?.recordSuccess(rpcUrl));
+      Object.keys(failures).forEach((rpc) => this._circuitBreaker?.recordFailure(rpc.split("__")[1]));
+    }
+
+    this._recordLatencyStats(latencies, runtimeRpcs, failures);
+
+    this._runtimeRpcs = [...runtimeRpcs, ...openRpcs];
     this._latencies = latencies;
+    this._failures = failures;
     this._refreshLatencies++;
 
-    StorageService.setLatencies(this._env, this._latencies);
-    StorageService.setRefreshLatencies(this._env, this._refreshLatencies);
+    if (Object.keys(failures).length > 0) {
+      this.log("debug", `[${this.proxySettings.moduleName}] Excluded RPCs from the race`, { failures });
+    }
+
+    await this._saveToStorage();
+
+    // until probed new responders are assumed to support every method
+    if (this._shouldProbeCapabilities) {
+      void this.probeCapabilities();
+    }
+  }
+
+  private _applySharedResults({ latencies, latencyStats, rpcUrl }: SharedRaceResults): void {
+    this._latencies = latencies;
+    this._latencyStats = latencyStats;
+    this._runtimeRpcs = this.populateRuntimeFromNetwork(Object.keys(latencies));
+
+    // tabs that already raced follow the leader's choice
+    if (rpcUrl && this._activeProvider && rpcUrl !== this.getActiveRpcUrl()) {
+      this.switchProvider(rpcUrl);
+    }
+  }
+
+  private async _loadFromStorage(storage: StorageAdapter): Promise<void> {
+    try {
+      const { latencies, latencyStats, refreshLatencies } = await StorageService.getRaceResults(storage, this._networkId, this._cacheMaxAge);
+
+      this._latencies = latencies;
+      this._latencyStats = latencyStats;
+      this._refreshLatencies = refreshLatencies;
+    } catch (err) {
+      // e.g the migration of 1.x results failed to write, the RPCs are raced from scratch
+      this.log("error", `[${this.proxySettings.moduleName}] Failed to load race results`, this.metadataMaker(err, "loadFromStorage", []));
+    }
+  }
+
+  private async _saveToStorage(): Promise<void> {
+    if (!this._storage) return;
+
+    try {
+      await StorageService.setRaceResults(this._storage, this._networkId, {
+        latencies: this._latencies,
+        latencyStats: this._latencyStats,
+        refreshLatencies: this._refreshLatencies,
+      });
+    } catch (err) {
+      // the race results are still used in memory
+      this.log("error", `[${this.proxySettings.moduleName}] Failed to save race results`, this.metadataMaker(err, "saveToStorage", []));
+    }
+  }
+
+  private _recordLatencyStats(latencies: Record<string, number>, runtimeRpcs: string[], failures: Record<string, RpcFailureReason>): void {
+    runtimeRpcs.forEach((rpcUrl) => {
+      const key = `${this._networkId}__${rpcUrl}`;
+      this._latencyStats[key] = recordLatencySample(this._latencyStats[key], latencies[key], this._latencyStatsSettings);
+    });
+
+    Object.keys(failures).forEach((key) => {
+      this._latencyStats[key] = recordLatencyFailure(this._latencyStats[key]);
+    });
+  }
+
+  private _getRankBy(): LatencyStatistic {
+    return this._latencyStatsSettings.rankBy ?? "ewma";
+  }
+
+  private async _probeNewRpcs(): Promise<void> {
+    const rpcUrls = this._getSortedRpcUrls().filter((rpcUrl) => !this._capabilities[rpcUrl]);
+
+    await Promise.all(
+      rpcUrls.map(async (rpcUrl) => {
+        const { headers, timeout } = this._getRequestOptions(rpcUrl);
+        const capabilities = await probeRpcCapabilities((method, params) => RPCService.call(rpcUrl, method, params, timeout, headers));
+
+        // unreachable RPCs are probed again next time
+        if (capabilities) {
+          this._capabilities[rpcUrl] = capabilities;
+        }
+      })
+    );
+
+    this.log("debug", `[${this.proxySettings.moduleName}] Probed RPC capabilities`, { capabilities: this._capabilities });
+  }
+
+  // lag is measured once wrong-chain RPCs are quarantined and only against the chain head of verified RPCs
+  private _dropLaggingRpcs(
+    latencies: Record<string, number>,
+    runtimeRpcs: string[],
+    failures: Record<string, RpcFailureReason>,
+    blockHeights: Record<string, number>,
+    maxBlockLag: number
+  ): void {
+    const heights = Object.fromEntries(Object.entries(blockHeights).filter(([rpcUrl]) => runtimeRpcs.includes(rpcUrl)));
+    const headRpcs = this._verifyChainId ? Object.keys(heights).filter((rpcUrl) => this._chainIds[rpcUrl] !== undefined) : Object.keys(heights);
+
+    RPCService._dropLaggingRpcs(this._networkId, latencies, runtimeRpcs, failures, heights, maxBlockLag, headRpcs);
+  }
+
+  private async _verifyChainIds(rpcUrls: string[]): Promise<void> {
+    const unverified = rpcUrls.filter((rpcUrl) => this._chainIds[rpcUrl] === undefined);
+
+    const chainIds = await Promise.all(
+      unverified.map((rpcUrl) => {
+        const { headers, timeout } = this._getRequestOptions(rpcUrl);
+        return RPCService.getChainId(rpcUrl, timeout, headers);
+      })
+    );
+
+    unverified.forEach((rpcUrl, index) => {
+      const chainId = chainIds[index];
+      // unreachable RPCs are left for the race to exclude and will be verified next time
+      if (chainId === null) return;
+
+      this._chainIds[rpcUrl] = chainId;
+
+      if (this._isQuarantined(rpcUrl)) {
+        this.log(
+          "error",
+          `[${this.proxySettings.moduleName}] Quarantined RPC serving the wrong chain: ${rpcUrl}`,
+          this.metadataMaker({}, "verifyChainIds", [], { rpcUrl, expected: Number(this._networkId), actual: chainId })
+        );
+      }
+    });
+  }
+
+  private _isRpcAllowed(rpcUrl: string): boolean {
+    return isRpcPermitted(rpcUrl, this._rpcFilter) && (this._webSockets || !isWebSocketUrl(rpcUrl));
+  }
+
+  private _dropDeniedLatencies(): void {
+    for (const rpc of Object.keys(this._latencies)) {
+      if (!this._isRpcAllowed(rpc.split("__")[1])) {
+        delete this._latencies[rpc];
+      }
+    }
+  }
+
+  private _isQuarantined(rpcUrl: string): boolean {
+    const chainId = this._chainIds[rpcUrl];
+    return chainId !== undefined && chainId !== Number(this._networkId);
+  }
+
+  /**
+   * Redacts the API keys substituted into RPC URLs back to their placeholders, and the RPC credentials and headers, e.g for output outside of the logs
+   */
+  public redact<T>(value: T): T {
+    return redactSecrets(value, this._secrets);
   }
 
   // creates metadata for logging
@@ -370,11 +1272,18 @@ export class RPCHandler implements HandlerInterface {
     }
 
     const isStrict = this.proxySettings.strictLogs;
+    const isTierLogged = isStrict && logTier === tier;
+
+    if (!isTierLogged && logTier !== "verbose" && isStrict) return;
 
-    if (isStrict && logTier === tier) {
+    // API keys and RPC credentials never reach the logs, redacted only once the entry is logged
+    message = redactSecrets(message, this._secrets);
+    metadata = redactSecrets(metadata, this._secrets);
+
+    if (isTierLogged) {
       // if strictLogs is true, only log the tier specified
       this.proxySettings.logger?.[tier](message, metadata);
-    } else if (logTier === "verbose" || !isStrict) {
+    } else {
       // if strictLogs is false or tier is "verbose" log all logs
       this.proxySettings.logger?.log(tier, message, metadata);
     }
@@ -392,6 +1301,10 @@ export class RPCHandler implements HandlerInterface {
       };
     }
 
+    if (this._proxySettings.circuitBreaker) {
+      this._circuitBreaker = new CircuitBreaker(this._proxySettings.circuitBreaker);
+    }
+
     if (config.networkName) {
       this._networkName = config.networkName;
     }
@@ -404,16 +1317,79 @@ export class RPCHandler implements HandlerInterface {
       this._rpcTimeout = config.rpcTimeout;
     }
 
+    if (config.verifyChainId === false) {
+      this._verifyChainId = false;
+    }
+
+    if (typeof config.maxBlockLag === "number") {
+      this._maxBlockLag = config.maxBlockLag;
+    }
+
+    if (config.latencyStats) {
+      this._latencyStatsSettings = config.latencyStats;
+    }
+
+    if (config.webSockets) {
+      this._webSockets = true;
+    }
+
+    if (config.probeCapabilities) {
+      this._shouldProbeCapabilities = true;
+    }
+
+    this._updateStorageConfig(config);
+  }
+
+  private _updateStorageConfig(config: HandlerConstructorConfig): void {
+    if (config.cacheMaxAge) {
+      this._cacheMaxAge = config.cacheMaxAge;
+    }
+
+    if (config.coordinateTabs && this._env === "browser" && typeof localStorage !== "undefined") {
+      this._tabCoordinator = new TabCoordinator(this._networkId, (results) => this._applySharedResults(results));
+    }
+
     if (config.autoStorage) {
       this._autoStorage = true;
-      this._latencies = StorageService.getLatencies(this._env, this._networkId);
-      this._refreshLatencies = StorageService.getRefreshLatencies(this._env);
+      // without an adapter race results are only persisted in the browser
+      this._storage = config.storage ?? (this._env === "browser" ? new LocalStorageAdapter() : null);
+    }
+
+    if (this._storage) {
+      this._storageLoaded = this._loadFromStorage(this._storage);
+    }
+  }
+
+  /**
+   * Substitutes the API keys into the RPC URLs, RPCs left with a placeholder are skipped
+   */
+  private _resolveRpcUrls(apiKeys: Record<string, string> | undefined): void {
+    const placeholders = [...getRpcUrls(this._networkRpcs), ...this._runtimeRpcs].flatMap(getPlaceholders);
+    this._apiKeys = { ...apiKeys, ...lookupApiKeys(placeholders, apiKeys) };
+    this._secrets = { ...getRpcSecrets(this._networkRpcs), ...this._apiKeys };
+
+    const unresolvedRpcs: string[] = [];
+    const resolve = (rpcUrl: string) => {
+      const resolved = resolveRpcUrl(rpcUrl, this._apiKeys);
+      if (resolved === null) unresolvedRpcs.push(rpcUrl);
+      return resolved;
+    };
+
+    this._networkRpcs = this._networkRpcs.flatMap((rpc) => {
+      const url = resolve(getRpcUrls([rpc])[0]);
+      return url === null ? [] : [typeof rpc === "string" ? { url } : { ...rpc, url }];
+    });
+    this._runtimeRpcs = this._runtimeRpcs.map(resolve).filter((rpc): rpc is string => rpc !== null);
+
+    if (unresolvedRpcs.length) {
+      this.log("debug", `[${this.proxySettings.moduleName}] Skipped RPCs with unresolved placeholders`, { rpcUrls: unresolvedRpcs });
     }
   }
 
   private _filterRpcs(networks: Rpc[], tracking: Tracking) {
     return networks.filter((rpc) => {
-      if (tracking == "yes") {
+      // allowlisted RPCs are used regardless of their tracking status
+      if (isAllowListed(getRpcUrls([rpc])[0], this._rpcFilter) || tracking == "yes") {
         return true;
       } else if (tracking == "limited") {
         return rpc.tracking == "limited" || rpc.tracking == "none";
@@ -447,5 +1423,12 @@ export class RPCHandler implements HandlerInterface {
     }
 
     this._updateConfig(config);
+    this._resolveRpcUrls(config.apiKeys);
+
+    // user supplied RPCs skip the tracking filter but not the allow/deny lists
+    this._networkRpcs = this._networkRpcs.filter((rpc) => isRpcPermitted(getRpcUrls([rpc])[0], this._rpcFilter));
+    this._runtimeRpcs = this._runtimeRpcs.filter((rpc) => isRpcPermitted(this.populateRuntimeFromNetwork([rpc])[0], this._rpcFilter));
+    this._rpcOptions = getRpcRequestOptions(this._networkRpcs);
+    this._rateLimiter = new RateLimiter(this._proxySettings.rateLimit, this._rpcOptions);
   }
 }
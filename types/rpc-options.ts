@@ -0,0 +1,56 @@
+import { Rpc, RpcAuth, RpcRequestOptions } from "./handler";
+
+// btoa only takes latin1, so the UTF-8 bytes are passed in as characters
+function toBase64(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+export function getAuthorizationHeader(auth: RpcAuth): string {
+  if ("token" in auth) {
+    return `Bearer ${auth.token}`;
+  }
+
+  const credentials = `${auth.username}:${auth.password}`;
+  return `Basic ${toBase64(credentials)}`;
+}
+
+/**
+ * The headers, timeout and rate limit of the RPCs which set any, keyed by URL
+ */
+export function getRpcRequestOptions(rpcs: Rpc[]): Record<string, RpcRequestOptions> {
+  const options: Record<string, RpcRequestOptions> = {};
+
+  for (const rpc of rpcs) {
+    if (typeof rpc === "string" || (!rpc.headers && !rpc.auth && rpc.timeout === undefined && !rpc.rateLimit)) continue;
+
+    options[rpc.url] = {
+      // explicit headers win over the ones derived from auth
+      headers: { ...(rpc.auth && { Authorization: getAuthorizationHeader(rpc.auth) }), ...rpc.headers },
+      timeout: rpc.timeout,
+      rateLimit: rpc.rateLimit,
+    };
+  }
+
+  return options;
+}
+
+/**
+ * The credentials and header values set by the RPCs, keyed by a name unique to each value, to be redacted from the logs
+ */
+export function getRpcSecrets(rpcs: Rpc[]): Record<string, string> {
+  const secrets: Record<string, string> = {};
+
+  rpcs.forEach((rpc, index) => {
+    if (typeof rpc === "string") return;
+
+    const auth = rpc.auth && ("token" in rpc.auth ? { token: rpc.auth.token } : { password: rpc.auth.password });
+    const values = { ...auth, ...(rpc.auth && { Authorization: getAuthorizationHeader(rpc.auth) }), ...rpc.headers };
+
+    for (const [name, value] of Object.entries(values)) {
+      const isTaken = secrets[name] !== undefined && secrets[name] !== value;
+      secrets[isTaken ? `${name}_${index}` : name] = value;
+    }
+  });
+
+  return secrets;
+}
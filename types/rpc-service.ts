@@ -1,6 +1,22 @@
-import { NetworkId, ValidBlockData } from "./handler";
+import { BatchRequest, LatencyStatistic, LatencyStats, NetworkId, RpcFailureReason, RpcRequestOptions, ValidBlockData } from "./handler";
+import { rankLatencies } from "./latency-stats";
+import { clampTimeout, isWebSocketUrl, webSocketRequest } from "./websocket";
+import { JsonRpcRequestError } from "./errors";
+import { getRateLimit } from "./error-classifier";
+import { parseBatchResponse, SettledRequest, toBatchBody, toBatchError } from "./batch";
 import axios, { AxiosError } from "axios";
-type PromiseResult = { success: boolean; rpcUrl: string; duration: number; error?: string };
+type PromiseResult = {
+  success: boolean;
+  rpcUrl: string;
+  duration: number;
+  blockNumber?: number;
+  error?: string;
+  reason?: RpcFailureReason;
+  retryAfter?: number | null; // (ms) sent with a 429
+};
+
+const REQUEST_FAILED = "request-failed";
+const RATE_LIMITED = "rate-limited";
 
 const rpcBody = JSON.stringify({
   jsonrpc: "2.0",
@@ -9,37 +25,174 @@ const rpcBody = JSON.stringify({
   id: 1,
 });
 
+const chainIdBody = JSON.stringify({
+  jsonrpc: "2.0",
+  method: "eth_chainId",
+  params: [],
+  id: 1,
+});
+
 export class RPCService {
   static async makeRpcRequest(rpcUrl: string, rpcTimeout: number, rpcHeader: object): Promise<PromiseResult> {
+    if (isWebSocketUrl(rpcUrl)) {
+      return RPCService._makeWebSocketRpcRequest(rpcUrl, rpcTimeout);
+    }
+
     const instance = axios.create({
-      timeout: rpcTimeout,
+      timeout: clampTimeout(rpcTimeout),
       headers: rpcHeader,
     });
     const startTime = performance.now();
     try {
-      await instance.post(rpcUrl, rpcBody);
+      const { data } = await instance.post(rpcUrl, rpcBody);
+      const reason = RPCService._validateResponse(data);
+
+      if (reason) {
+        return {
+          rpcUrl,
+          success: false,
+          duration: 0,
+          error: reason,
+          reason,
+        };
+      }
+
       return {
         rpcUrl,
         duration: performance.now() - startTime,
         success: true,
+        blockNumber: RPCService._parseBlockNumber(data),
       };
     } catch (err) {
-      if (err instanceof AxiosError) {
-        const isTimeout = err.code === "ECONNABORTED";
-        return {
-          rpcUrl,
-          success: false,
-          duration: isTimeout ? performance.now() - startTime : 0,
-          error: isTimeout ? "timeout" : err.message,
-        };
-      }
+      return RPCService._toFailedResult(rpcUrl, err, startTime);
+    }
+  }
+
+  static _toFailedResult(rpcUrl: string, err: unknown, startTime: number): PromiseResult {
+    const rateLimit = getRateLimit(err);
+    if (rateLimit) {
+      return { rpcUrl, success: false, duration: 0, error: RATE_LIMITED, reason: RATE_LIMITED, retryAfter: rateLimit.retryAfter };
+    }
+
+    if (err instanceof AxiosError) {
+      const isTimeout = err.code === "ECONNABORTED";
       return {
         rpcUrl,
         success: false,
-        duration: 0,
-        error: `${err}`,
+        duration: isTimeout ? performance.now() - startTime : 0,
+        error: isTimeout ? "timeout" : err.message,
+        reason: isTimeout ? "timeout" : REQUEST_FAILED,
       };
     }
+    return {
+      rpcUrl,
+      success: false,
+      duration: 0,
+      error: `${err}`,
+      reason: REQUEST_FAILED,
+    };
+  }
+
+  static async _makeWebSocketRpcRequest(rpcUrl: string, rpcTimeout: number): Promise<PromiseResult> {
+    const startTime = performance.now();
+    const response = await webSocketRequest(rpcUrl, rpcBody, rpcTimeout);
+
+    if ("error" in response) {
+      return {
+        rpcUrl,
+        success: false,
+        duration: response.isTimeout ? performance.now() - startTime : 0,
+        error: response.error,
+        reason: response.isTimeout ? "timeout" : REQUEST_FAILED,
+      };
+    }
+
+    const reason = RPCService._validateResponse(response.data);
+
+    if (reason) {
+      return { rpcUrl, success: false, duration: 0, error: reason, reason };
+    }
+
+    return {
+      rpcUrl,
+      duration: performance.now() - startTime,
+      success: true,
+      blockNumber: RPCService._parseBlockNumber(response.data),
+    };
+  }
+
+  /**
+   * Returns the chain ID an RPC reports via `eth_chainId`,
+   * or null if it could not be reached or the response was invalid
+   */
+  static async getChainId(rpcUrl: string, rpcTimeout: number, rpcHeader: object): Promise<number | null> {
+    const instance = axios.create({
+      timeout: clampTimeout(rpcTimeout),
+      headers: rpcHeader,
+    });
+    try {
+      const data = isWebSocketUrl(rpcUrl) ? await RPCService._webSocketData(rpcUrl, chainIdBody, rpcTimeout) : (await instance.post(rpcUrl, chainIdBody)).data;
+      const result = (data as { result?: unknown } | undefined)?.result;
+      if (typeof result !== "string") return null;
+
+      const chainId = parseInt(result, 16);
+      return isNaN(chainId) ? null : chainId;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * Sends a single JSON-RPC request and returns its result,
+   * an error response is thrown as a JsonRpcRequestError
+   */
+  static async call(rpcUrl: string, method: string, params: unknown[], rpcTimeout: number, rpcHeader: object): Promise<unknown> {
+    const body = JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 });
+    const instance = axios.create({
+      timeout: clampTimeout(rpcTimeout),
+      headers: rpcHeader,
+    });
+    const data = (isWebSocketUrl(rpcUrl) ? await RPCService._webSocketData(rpcUrl, body, rpcTimeout) : (await instance.post(rpcUrl, body)).data) as
+      | { result?: unknown; error?: { code: number; message: string; data?: unknown } }
+      | undefined;
+
+    if (data?.error) {
+      throw new JsonRpcRequestError(data.error);
+    }
+
+    if (!data || typeof data !== "object" || !("result" in data)) {
+      throw new Error(`Invalid JSON-RPC response from ${rpcUrl}`);
+    }
+
+    return data.result;
+  }
+
+  /**
+   * Sends the requests as one JSON-RPC batch, settling each of them in order.
+   * A BatchNotSupportedError is thrown if the RPC rejects the batch as a whole
+   */
+  static async callBatch(rpcUrl: string, requests: BatchRequest[], rpcTimeout: number, rpcHeader: object): Promise<SettledRequest[]> {
+    const body = toBatchBody(requests);
+    let data: unknown;
+
+    if (isWebSocketUrl(rpcUrl)) {
+      data = await RPCService._webSocketData(rpcUrl, body, rpcTimeout);
+    } else {
+      const instance = axios.create({ timeout: clampTimeout(rpcTimeout), headers: rpcHeader });
+      data = (await instance.post(rpcUrl, body).catch((err: unknown) => Promise.reject(toBatchError(rpcUrl, err)))).data;
+    }
+
+    return parseBatchResponse(rpcUrl, data, requests.length);
+  }
+
+  static async _webSocketData(rpcUrl: string, body: string, rpcTimeout: number): Promise<unknown> {
+    const response = await webSocketRequest(rpcUrl, body, rpcTimeout);
+
+    if ("error" in response) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
   }
 
   static async testRpcPerformance(
@@ -47,11 +200,20 @@ export class RPCService {
     latencies: Record<string, number>,
     runtimeRpcs: string[],
     rpcHeader: object,
-    rpcTimeout: number
-  ): Promise<{ latencies: Record<string, number>; runtimeRpcs: string[] }> {
+    rpcTimeout: number,
+    maxBlockLag: number | null = null,
+    rpcOptions: Record<string, RpcRequestOptions> = {} // per RPC headers and timeouts, merged over rpcHeader and rpcTimeout
+  ): Promise<{
+    latencies: Record<string, number>;
+    runtimeRpcs: string[];
+    failures: Record<string, RpcFailureReason>;
+    retryAfter: Record<string, number>; // (ms) sent by rate-limited RPCs
+    blockHeights: Record<string, number>; // of every RPC that returned a valid block
+  }> {
     async function requestEndpoint(rpcUrl: string) {
+      const { headers, timeout } = rpcOptions[rpcUrl] ?? {};
       try {
-        return await RPCService.makeRpcRequest(rpcUrl, rpcTimeout, rpcHeader);
+        return await RPCService.makeRpcRequest(rpcUrl, timeout ?? rpcTimeout, { ...rpcHeader, ...headers });
       } catch (err) {
         console.error(`Failed to reach endpoint. ${err}`);
         throw new Error(rpcUrl);
@@ -81,37 +243,114 @@ export class RPCService {
     }
 
     const allResults = await Promise.allSettled(promises);
+    const blockHeights: Record<string, number> = {};
+    const failures: Record<string, RpcFailureReason> = {};
+    const retryAfter: Record<string, number> = {};
 
     allResults.forEach((result) => {
       if (result.status === "fulfilled" && result.value.success) {
         latencies[`${networkId}__${result.value.rpcUrl}`] = result.value.duration;
+        if (result.value.blockNumber !== undefined) {
+          blockHeights[result.value.rpcUrl] = result.value.blockNumber;
+        }
       } else if (result.status === "fulfilled") {
-        const fulfilledResult = result.value;
-        const index = runtimeRpcs.indexOf(fulfilledResult.rpcUrl);
-        if (index > -1) {
-          runtimeRpcs.splice(index, 1);
+        // a previous race may have recorded this RPC as healthy
+        delete latencies[`${networkId}__${result.value.rpcUrl}`];
+        failures[`${networkId}__${result.value.rpcUrl}`] = result.value.reason ?? REQUEST_FAILED;
+        if (typeof result.value.retryAfter === "number") {
+          retryAfter[`${networkId}__${result.value.rpcUrl}`] = result.value.retryAfter;
         }
+        RPCService._removeRuntimeRpc(runtimeRpcs, result.value.rpcUrl);
       }
     });
 
-    return { latencies, runtimeRpcs };
+    if (maxBlockLag !== null) {
+      RPCService._dropLaggingRpcs(networkId, latencies, runtimeRpcs, failures, blockHeights, maxBlockLag);
+    }
+
+    return { latencies, runtimeRpcs, failures, retryAfter, blockHeights };
   }
 
-  static async findFastestRpc(latencies: Record<string, number>, networkId: NetworkId): Promise<string | null> {
+  /**
+   * The observed chain head is the median block of the `headRpcs` responders so a single RPC
+   * on the wrong chain, or with a bogus height, can't move it. RPCs trailing it by more than `maxBlockLag` blocks are excluded.
+   */
+  static _dropLaggingRpcs(
+    networkId: NetworkId,
+    latencies: Record<string, number>,
+    runtimeRpcs: string[],
+    failures: Record<string, RpcFailureReason>,
+    blockHeights: Record<string, number>,
+    maxBlockLag: number,
+    headRpcs: string[] = Object.keys(blockHeights)
+  ): void {
+    const heights = headRpcs
+      .map((rpcUrl) => blockHeights[rpcUrl])
+      .filter((blockNumber) => blockNumber !== undefined)
+      .sort((a, b) => a - b);
+    if (heights.length === 0) return;
+
+    const chainHead = heights[Math.floor(heights.length / 2)];
+
+    for (const [rpcUrl, blockNumber] of Object.entries(blockHeights)) {
+      if (chainHead - blockNumber > maxBlockLag) {
+        delete latencies[`${networkId}__${rpcUrl}`];
+        failures[`${networkId}__${rpcUrl}`] = "lagging";
+        RPCService._removeRuntimeRpc(runtimeRpcs, rpcUrl);
+      }
+    }
+  }
+
+  static _removeRuntimeRpc(runtimeRpcs: string[], rpcUrl: string): void {
+    const index = runtimeRpcs.indexOf(rpcUrl);
+    if (index > -1) {
+      runtimeRpcs.splice(index, 1);
+    }
+  }
+
+  /**
+   * Returns the reason a probe response cannot be trusted, or null if it
+   * is a well-formed JSON-RPC envelope wrapping a valid block
+   */
+  static _validateResponse(data: unknown): RpcFailureReason | null {
+    // HTML captcha pages and plain-text notices are not parsed by axios
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return "invalid-json";
+    }
+
+    if ("error" in data && data.error) {
+      return getRateLimit(data.error) ? RATE_LIMITED : "rpc-error";
+    }
+
+    if (!RPCService._verifyBlock(data as ValidBlockData)) {
+      return "bad-block";
+    }
+
+    return null;
+  }
+
+  static _parseBlockNumber(data: unknown): number | undefined {
+    const number = (data as Partial<ValidBlockData> | undefined)?.result?.number;
+    if (typeof number !== "string") return undefined;
+
+    const blockNumber = parseInt(number, 16);
+    return isNaN(blockNumber) ? undefined : blockNumber;
+  }
+
+  static async findFastestRpc(
+    latencies: Record<string, number>,
+    networkId: NetworkId,
+    latencyStats: Record<string, LatencyStats> = {},
+    rankBy: LatencyStatistic = "latest"
+  ): Promise<string | null> {
     try {
-      const validLatencies: Record<string, number> = Object.entries(latencies)
-        .filter(([key]) => key.startsWith(`${networkId}__`))
-        .reduce(
-          (acc, [key, value]) => {
-            acc[key] = value;
-            return acc;
-          },
-          {} as Record<string, number>
-        );
-
-      return Object.keys(validLatencies)
-        .reduce((a, b) => (validLatencies[a] < validLatencies[b] ? a : b))
-        .split("__")[1];
+      const [fastest] = rankLatencies(latencies, networkId, latencyStats, rankBy);
+
+      if (!fastest) {
+        throw new Error(`No latencies recorded for network ${networkId}`);
+      }
+
+      return fastest[0].split("__")[1];
     } catch (error) {
       console.error("[RPCService] Failed to find fastest RPC", error);
       return null;
@@ -0,0 +1,96 @@
+const PLACEHOLDER = /\$\{(\w+)\}/g;
+// only these are looked up in the environment so an RPC URL can't pull in any variable, e.g ${DATABASE_URL}
+const ENV_API_KEY = /_API_KEY$/;
+
+/**
+ * The names of the `${PLACEHOLDER}`s in an RPC URL, e.g ["INFURA_API_KEY"]
+ */
+export function getPlaceholders(rpcUrl: string): string[] {
+  return Array.from(rpcUrl.matchAll(PLACEHOLDER), ([, name]) => name);
+}
+
+/**
+ * Looks up each key in apiKeys, then `*_API_KEY`s in the environment variables (Node only). Keys without a value are left out
+ */
+export function lookupApiKeys(names: string[], apiKeys: Record<string, string> = {}): Record<string, string> {
+  const env = typeof process !== "undefined" ? process.env : {};
+  const keys: Record<string, string> = {};
+
+  for (const name of names) {
+    const value = apiKeys[name] || (ENV_API_KEY.test(name) ? env[name] : undefined);
+    if (value) {
+      keys[name] = value;
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Substitutes the placeholders of an RPC URL, null if any of them has no key
+ */
+export function resolveRpcUrl(rpcUrl: string, apiKeys: Record<string, string>): string | null {
+  let isResolved = true;
+  const resolved = rpcUrl.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!apiKeys[name]) {
+      isResolved = false;
+      return placeholder;
+    }
+    return apiKeys[name];
+  });
+
+  return isResolved ? resolved : null;
+}
+
+function redactString(value: string, secrets: [string, string][]): string {
+  return secrets.reduce((redacted, [name, secret]) => redacted.split(secret).join(`\${${name}}`), value);
+}
+
+function redactValue(value: unknown, secrets: [string, string][], seen: WeakMap<object, unknown>): unknown {
+  if (typeof value === "string") {
+    return redactString(value, secrets);
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    value.forEach((item) => copy.push(redactValue(item, secrets, seen)));
+    return copy;
+  }
+
+  // class instances other than errors (providers, BigNumbers...) are left as they are
+  if (!(value instanceof Error) && prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  const copy = Object.create(prototype);
+  seen.set(value, copy);
+  // getOwnPropertyNames includes the non-enumerable message and stack of errors
+  for (const key of Object.getOwnPropertyNames(value)) {
+    copy[key] = redactValue((value as Record<string, unknown>)[key], secrets, seen);
+  }
+
+  return copy;
+}
+
+/**
+ * Replaces every API key found in a string, or nested in an object or error, with its placeholder
+ */
+export function redactSecrets<T>(value: T, apiKeys: Record<string, string>): T {
+  // longest first so a key containing another is redacted whole
+  const secrets = Object.entries(apiKeys)
+    .filter(([, secret]) => secret)
+    .sort(([, a], [, b]) => b.length - a.length);
+
+  return secrets.length ? (redactValue(value, secrets, new WeakMap()) as T) : value;
+}
@@ -0,0 +1,126 @@
+import { StorageAdapter } from "./handler";
+
+/**
+ * The default browser storage, does nothing where `localStorage` is not defined
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  async getItem(key: string): Promise<string | null> {
+    if (typeof localStorage === "undefined") return null;
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (typeof localStorage === "undefined") return;
+    localStorage.setItem(key, value);
+  }
+}
+
+/**
+ * Keeps race results for the lifetime of the process, e.g to share them between handlers
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private _items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this._items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this._items.set(key, value);
+  }
+}
+
+/**
+ * Node only, keeps every item in a single JSON file so race results survive restarts
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  private _filePath: string;
+  private _items: Promise<Record<string, string>> | null = null;
+  private _write: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this._filePath = filePath;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const items = await this._readFile();
+    return items[key] ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const items = await this._readFile();
+    items[key] = value;
+
+    // writes are chained so concurrent calls can't interleave, a failed write doesn't fail the next ones
+    this._write = this._write
+      .catch(() => undefined)
+      .then(async () => {
+        const { writeFile } = await import("fs/promises");
+        await writeFile(this._filePath, JSON.stringify(items, null, 2));
+      });
+
+    return this._write;
+  }
+
+  // read once and shared so concurrent first calls update the same items
+  private _readFile(): Promise<Record<string, string>> {
+    if (!this._items) {
+      this._items = import("fs/promises")
+        .then(({ readFile }) => readFile(this._filePath, "utf8"))
+        .then((file) => {
+          const parsed = JSON.parse(file);
+          return parsed && typeof parsed === "object" ? parsed : {};
+        })
+        // a missing or corrupt file starts a fresh cache
+        .catch(() => ({}));
+    }
+
+    return this._items;
+  }
+}
+
+/**
+ * Browser storage that, unlike localStorage, is also available to web workers
+ */
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  private _dbName: string;
+  private _storeName: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = "rpc-handler", storeName = "storage") {
+    this._dbName = dbName;
+    this._storeName = storeName;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this._request<unknown>("readonly", (store) => store.get(key));
+    return typeof value === "string" ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this._request("readwrite", (store) => store.put(value, key));
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this._dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this._storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this._db;
+  }
+
+  private async _request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this._open();
+
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this._storeName, mode).objectStore(this._storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -1,52 +1,223 @@
-import { NetworkId } from "./handler";
+import { LatencyStats, NetworkId, StorageAdapter } from "./handler";
+
+export const STORAGE_VERSION = 2;
+export const DEFAULT_CACHE_MAX_AGE = 60 * 60 * 1000; // 1 hour
+
+// 1.x kept every network in the same blobs
+const LEGACY_LATENCIES = "rpcLatencies";
+const LEGACY_REFRESH_LATENCIES = "refreshLatencies";
+
+type CacheEntry = {
+  latency: number; // (ms) the latest race duration
+  stats?: LatencyStats;
+  updatedAt: number; // when the RPC last responded to a race
+};
+
+type NetworkCache = {
+  version: number;
+  networkId: NetworkId;
+  refreshLatencies: number;
+  entries: Record<string, CacheEntry>; // keyed by RPC url
+};
+
+export type CachedRaceResults = {
+  latencies: Record<string, number>;
+  latencyStats: Record<string, LatencyStats>;
+  refreshLatencies: number;
+};
 
 export class StorageService {
-  static getLatencies(env: string, networkId: NetworkId): Record<string | number, number> {
-    if (env === "browser") {
-      if (this.bypassForTests()) return {};
-      const latencies: Record<string, number> = JSON.parse(localStorage.getItem("rpcLatencies") || "{}");
-      return Object.keys(latencies).reduce((acc: Record<string, number>, key) => {
-        if (key.startsWith(`${networkId}__`)) {
-          acc[key] = latencies[key];
-        }
-        return acc;
-      }, {});
+  static getCacheKey(networkId: NetworkId): string {
+    return `rpcCache_${networkId}`;
+  }
+
+  /**
+   * Loads a network's race results, ignoring entries older than `maxAge` (ms).
+   * Results stored by 1.x are migrated the first time they are loaded.
+   */
+  static async getRaceResults(storage: StorageAdapter, networkId: NetworkId, maxAge = DEFAULT_CACHE_MAX_AGE, now = Date.now()): Promise<CachedRaceResults> {
+    let cache = await this._read<NetworkCache | null>(storage, this.getCacheKey(networkId), null);
+
+    if (!cache) {
+      cache = await this._migrateLegacy(storage, networkId, now);
     }
 
-    return {};
+    return this._toRaceResults(cache, networkId, maxAge, now);
   }
 
-  static getRefreshLatencies(env: string): number {
-    if (env === "browser") {
-      if (this.bypassForTests()) return 0;
-      const refresh = JSON.parse(localStorage.getItem("refreshLatencies") || "0");
-
-      if (typeof refresh === "number") {
-        return refresh;
-      } else {
-        return 0;
+  private static _toRaceResults(cache: NetworkCache | null, networkId: NetworkId, maxAge: number, now: number): CachedRaceResults {
+    // written by a newer version of the package, or corrupted
+    if (!cache || cache.version !== STORAGE_VERSION || typeof cache.entries !== "object") {
+      return { latencies: {}, latencyStats: {}, refreshLatencies: 0 };
+    }
+
+    const results: CachedRaceResults = { latencies: {}, latencyStats: {}, refreshLatencies: 0 };
+
+    for (const [rpcUrl, entry] of Object.entries(cache.entries)) {
+      if (typeof entry?.latency !== "number" || !(now - entry.updatedAt <= maxAge)) continue;
+
+      results.latencies[`${networkId}__${rpcUrl}`] = entry.latency;
+      if (entry.stats) {
+        results.latencyStats[`${networkId}__${rpcUrl}`] = entry.stats;
       }
     }
-    return 0;
+
+    // a cache with nothing fresh left should be fully re-raced
+    if (Object.keys(results.latencies).length) {
+      results.refreshLatencies = typeof cache.refreshLatencies === "number" ? cache.refreshLatencies : 0;
+    }
+
+    return results;
+  }
+
+  /**
+   * Merges a network's race results into storage. Entries another writer (e.g another tab)
+   * stored after these results were raced are kept, otherwise these results win.
+   */
+  static async setRaceResults(storage: StorageAdapter, networkId: NetworkId, results: CachedRaceResults, now = Date.now()): Promise<void> {
+    const stored = await this._read<NetworkCache | null>(storage, this.getCacheKey(networkId), null);
+    await this._write(storage, networkId, this._mergeRaceResults(stored, networkId, results, now));
+  }
+
+  private static _mergeRaceResults(stored: NetworkCache | null, networkId: NetworkId, results: CachedRaceResults, now: number): NetworkCache {
+    const entries: Record<string, CacheEntry> = {};
+    let racedAt = 0;
+
+    for (const [key, latency] of Object.entries(results.latencies)) {
+      if (!key.startsWith(`${networkId}__`)) continue;
+
+      const stats = results.latencyStats[key];
+      const updatedAt = stats?.lastSeen ?? now;
+      entries[key.split("__")[1]] = { latency, stats, updatedAt };
+      racedAt = Math.max(racedAt, updatedAt);
+    }
+
+    if (stored?.version === STORAGE_VERSION && typeof stored.entries === "object") {
+      for (const [rpcUrl, entry] of Object.entries(stored.entries)) {
+        if (entry?.updatedAt > (entries[rpcUrl]?.updatedAt ?? racedAt)) {
+          entries[rpcUrl] = entry;
+        }
+      }
+    }
+
+    return { version: STORAGE_VERSION, networkId, refreshLatencies: results.refreshLatencies, entries };
+  }
+
+  /**
+   * @deprecated use `getRaceResults()` with a `LocalStorageAdapter`
+   */
+  static getLatencies(env: string, networkId: NetworkId): Record<string | number, number> {
+    if (env !== "browser" || this.bypassForTests()) return {};
+    return this._toRaceResults(this._readLocal(this.getCacheKey(networkId)), networkId, DEFAULT_CACHE_MAX_AGE, Date.now()).latencies;
   }
+
+  /**
+   * @deprecated use `setRaceResults()` with a `LocalStorageAdapter`
+   */
   static setLatencies(env: string, latencies: Record<string | number, number>): void {
-    if (env === "browser") {
-      if (this.bypassForTests()) return;
-      localStorage.setItem("rpcLatencies", JSON.stringify(latencies));
+    if (env !== "browser" || this.bypassForTests()) return;
+
+    // 1.x kept the latencies of every network together
+    const networkIds = new Set(Object.keys(latencies).map((key) => key.split("__")[0]));
+
+    for (const networkId of networkIds) {
+      const stored = this._readLocal(this.getCacheKey(networkId));
+      const results = { latencies, latencyStats: {}, refreshLatencies: stored?.refreshLatencies ?? 0 };
+      localStorage.setItem(this.getCacheKey(networkId), JSON.stringify(this._mergeRaceResults(stored, networkId, results, Date.now())));
     }
   }
+
+  /**
+   * @deprecated refresh counts are kept per network, see `getRaceResults()`. Returns the highest of them.
+   */
+  static getRefreshLatencies(env: string): number {
+    if (env !== "browser" || this.bypassForTests()) return 0;
+    return Math.max(0, ...this._readLocalCaches().map((cache) => (typeof cache.refreshLatencies === "number" ? cache.refreshLatencies : 0)));
+  }
+
+  /**
+   * @deprecated refresh counts are kept per network, see `setRaceResults()`. Sets it for every stored network.
+   */
   static setRefreshLatencies(env: string, refreshLatencies: number): void {
-    if (env === "browser") {
-      if (this.bypassForTests()) return;
-      localStorage.setItem("refreshLatencies", JSON.stringify(refreshLatencies));
+    if (env !== "browser" || this.bypassForTests()) return;
+
+    for (const cache of this._readLocalCaches()) {
+      localStorage.setItem(this.getCacheKey(cache.networkId), JSON.stringify({ ...cache, refreshLatencies }));
     }
   }
 
-  // This method is only used for env detection testing
-  static bypassForTests() {
+  /**
+   * @deprecated `LocalStorageAdapter` does nothing where localStorage is not defined
+   */
+  static bypassForTests(): boolean {
     if (typeof localStorage === "undefined") {
       console.log("Passing test because localStorage is not defined.");
       return true;
     }
+    return false;
+  }
+
+  private static _readLocal(key: string): NetworkCache | null {
+    try {
+      const item = localStorage.getItem(key);
+      return item ? JSON.parse(item) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static _readLocalCaches(): NetworkCache[] {
+    const caches: NetworkCache[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const cache = key?.startsWith(this.getCacheKey("")) ? this._readLocal(key) : null;
+      if (cache?.version === STORAGE_VERSION) caches.push(cache);
+    }
+
+    return caches;
+  }
+
+  private static async _write(storage: StorageAdapter, networkId: NetworkId, cache: NetworkCache): Promise<void> {
+    await storage.setItem(this.getCacheKey(networkId), JSON.stringify(cache));
+  }
+
+  /**
+   * 1.x only stored latencies, without timestamps, so they are treated as raced at the time of migration
+   */
+  private static async _migrateLegacy(storage: StorageAdapter, networkId: NetworkId, now: number): Promise<NetworkCache | null> {
+    const [latencies, refreshLatencies] = await Promise.all([
+      this._read<Record<string, unknown>>(storage, LEGACY_LATENCIES, {}),
+      this._read<unknown>(storage, LEGACY_REFRESH_LATENCIES, 0),
+    ]);
+
+    const entries: Record<string, CacheEntry> = {};
+
+    for (const [key, latency] of Object.entries(latencies ?? {})) {
+      if (!key.startsWith(`${networkId}__`) || typeof latency !== "number") continue;
+      entries[key.split("__")[1]] = { latency, updatedAt: now };
+    }
+
+    if (!Object.keys(entries).length) return null;
+
+    const cache: NetworkCache = {
+      version: STORAGE_VERSION,
+      networkId,
+      refreshLatencies: typeof refreshLatencies === "number" ? refreshLatencies : 0,
+      entries,
+    };
+
+    // the legacy keys are left for other networks and older versions of the package
+    await this._write(storage, networkId, cache);
+    return cache;
+  }
+
+  private static async _read<T>(storage: StorageAdapter, key: string, fallback: T): Promise<T> {
+    try {
+      const item = await storage.getItem(key);
+      return item ? JSON.parse(item) : fallback;
+    } catch {
+      return fallback;
+    }
   }
 }
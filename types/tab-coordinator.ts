@@ -0,0 +1,154 @@
+import { LatencyStats, NetworkId } from "./handler";
+
+export const DEFAULT_LEASE_DURATION = 15_000; // ms
+
+export type SharedRaceResults = {
+  latencies: Record<string, number>;
+  latencyStats: Record<string, LatencyStats>;
+  rpcUrl: string | null; // the leader's fastest RPC
+  racedAt: number;
+};
+
+type Lease = {
+  tabId: string;
+  acquiredAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Lets one browser tab per network race the RPCs while the others reuse its results.
+ *
+ * The leader holds a lease in localStorage for `leaseDuration`, taken under a Web Lock where supported.
+ * Results are handed over through a BroadcastChannel and, where that is unavailable, through storage events on a localStorage key.
+ */
+export class TabCoordinator {
+  private _networkId: NetworkId;
+  private _tabId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  private _leaseDuration: number;
+  private _onResults: (results: SharedRaceResults) => void;
+  private _channel: BroadcastChannel | null = null;
+  private _lastRacedAt = 0;
+  private _waiting = new Set<(isShared: boolean) => void>();
+
+  constructor(networkId: NetworkId, onResults: (results: SharedRaceResults) => void, leaseDuration = DEFAULT_LEASE_DURATION) {
+    this._networkId = networkId;
+    this._onResults = onResults;
+    this._leaseDuration = leaseDuration;
+    this._onStorage = this._onStorage.bind(this);
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this._channel = new BroadcastChannel(`rpc-handler_${networkId}`);
+      this._channel.onmessage = (event: MessageEvent<SharedRaceResults>) => this._receive(event.data);
+    }
+
+    if (typeof window !== "undefined" && typeof window.addEventListener === "function") {
+      window.addEventListener("storage", this._onStorage);
+    }
+  }
+
+  get leaseKey(): string {
+    return `rpcLeader_${this._networkId}`;
+  }
+
+  get resultsKey(): string {
+    return `rpcRaceResults_${this._networkId}`;
+  }
+
+  /**
+   * Resolves true if this tab should run the race, i.e no other tab holds an unexpired lease.
+   * Where Web Locks are supported the lease is checked and taken under a lock, so only one tab can take it
+   */
+  public async acquireLease(now = Date.now()): Promise<boolean> {
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      return navigator.locks.request(this.leaseKey, () => this._takeLease(now));
+    }
+
+    // two tabs may have written at once, the last write wins
+    return this._takeLease(now) && this._readLease()?.tabId === this._tabId;
+  }
+
+  public publish(results: Omit<SharedRaceResults, "racedAt">, now = Date.now()): void {
+    const shared: SharedRaceResults = { ...results, racedAt: now };
+    this._lastRacedAt = now;
+
+    // the localStorage write alone notifies other tabs through storage events
+    localStorage.setItem(this.resultsKey, JSON.stringify(shared));
+    this._channel?.postMessage(shared);
+  }
+
+  /**
+   * Resolves true once the leader's results for the current lease have been applied,
+   * or false if the lease expires first and this tab should race for itself
+   */
+  public async waitForResults(now = Date.now()): Promise<boolean> {
+    const lease = this._readLease();
+    if (!lease) return false;
+
+    // the leader may have finished before this tab asked
+    const stored = this._parse<SharedRaceResults>(localStorage.getItem(this.resultsKey));
+    if (stored && stored.racedAt >= lease.acquiredAt) {
+      this._receive(stored);
+      return true;
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => settle(false), Math.max(0, lease.expiresAt - now));
+      const settle = (isShared: boolean) => {
+        clearTimeout(timer);
+        this._waiting.delete(settle);
+        resolve(isShared);
+      };
+
+      this._waiting.add(settle);
+    });
+  }
+
+  public close(): void {
+    this._channel?.close();
+    this._channel = null;
+
+    if (typeof window !== "undefined" && typeof window.removeEventListener === "function") {
+      window.removeEventListener("storage", this._onStorage);
+    }
+  }
+
+  private _onStorage(event: StorageEvent): void {
+    if (event.key !== this.resultsKey || !event.newValue) return;
+
+    const results = this._parse<SharedRaceResults>(event.newValue);
+    if (results) this._receive(results);
+  }
+
+  // the same results can arrive through both the channel and a storage event
+  private _receive(results: SharedRaceResults): void {
+    if (typeof results?.racedAt !== "number" || results.racedAt <= this._lastRacedAt) return;
+
+    this._lastRacedAt = results.racedAt;
+    this._onResults(results);
+    this._waiting.forEach((settle) => settle(true));
+  }
+
+  private _takeLease(now: number): boolean {
+    const lease = this._readLease();
+
+    if (lease && lease.tabId !== this._tabId && lease.expiresAt > now) {
+      return false;
+    }
+
+    const ownLease: Lease = { tabId: this._tabId, acquiredAt: now, expiresAt: now + this._leaseDuration };
+    localStorage.setItem(this.leaseKey, JSON.stringify(ownLease));
+    return true;
+  }
+
+  private _readLease(): Lease | null {
+    return this._parse<Lease>(localStorage.getItem(this.leaseKey));
+  }
+
+  private _parse<T>(value: string | null): T | null {
+    try {
+      return value ? JSON.parse(value) : null;
+    } catch {
+      return null;
+    }
+  }
+}
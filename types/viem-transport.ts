@@ -0,0 +1,12 @@
+import { custom, CustomTransport, CustomTransportConfig } from "viem";
+import type { RPCHandler } from "./rpc-handler";
+
+/**
+ * A viem transport sending every request through the handler's racing and failover engine.
+ * viem's own retries are disabled by default as the handler already retries on the next fastest RPC.
+ *
+ * @example createPublicClient({ chain: gnosis, transport: rpcHandlerTransport(handler) })
+ */
+export function rpcHandlerTransport(handler: RPCHandler, config: CustomTransportConfig = {}): CustomTransport {
+  return custom(handler.getEip1193Provider(), { key: "rpcHandler", name: "RPC Handler", retryCount: 0, ...config });
+}
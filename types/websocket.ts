@@ -0,0 +1,88 @@
+import { WebSocketProvider } from "@ethersproject/providers";
+import { WebSocket } from "@ethersproject/providers/lib/ws";
+
+// setTimeout fires immediately for anything above this
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+type PendingRequests = Record<string, { callback: (error: Error | null, result?: unknown) => void }>;
+
+export type WebSocketResponse = { data: unknown } | { error: string; isTimeout: boolean };
+
+// e.g the default rpcTimeout of Number.MAX_SAFE_INTEGER, which axios would also abort right away
+export function clampTimeout(timeout: number): number {
+  return Math.min(timeout, MAX_TIMEOUT);
+}
+
+export function isWebSocketUrl(rpcUrl: string): boolean {
+  return /^wss?:\/\//i.test(rpcUrl);
+}
+
+/**
+ * Opens a connection, sends a single JSON-RPC request and closes it again,
+ * the duration covers both the handshake and the call
+ */
+export function webSocketRequest(rpcUrl: string, body: string, rpcTimeout: number): Promise<WebSocketResponse> {
+  return new Promise((resolve) => {
+    let socket: WebSocket;
+
+    function finish(response: WebSocketResponse) {
+      clearTimeout(timer);
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      // closing while still connecting errors in Node
+      socket.onerror = () => undefined;
+      socket.close();
+      resolve(response);
+    }
+
+    const timer = setTimeout(() => finish({ error: "timeout", isTimeout: true }), clampTimeout(rpcTimeout));
+
+    try {
+      socket = new WebSocket(rpcUrl);
+    } catch (err) {
+      clearTimeout(timer);
+      resolve({ error: `${err}`, isTimeout: false });
+      return;
+    }
+
+    socket.onopen = () => socket.send(body);
+    socket.onmessage = (event: { data: unknown }) => {
+      try {
+        finish({ data: JSON.parse(String(event.data)) });
+      } catch {
+        // same as an HTTP RPC answering with HTML
+        finish({ data: event.data });
+      }
+    };
+    socket.onerror = () => finish({ error: "WebSocket error", isTimeout: false });
+    socket.onclose = () => finish({ error: "WebSocket closed", isTimeout: false });
+  });
+}
+
+/**
+ * An ethers WebSocketProvider whose pending requests fail once the connection drops,
+ * ethers would otherwise leave them hanging and the proxy could never fail over
+ */
+export function createWebSocketProvider(rpcUrl: string, chainId: number): WebSocketProvider {
+  const provider = new WebSocketProvider(rpcUrl, chainId);
+  const requests = (provider as unknown as { _requests: PendingRequests })._requests;
+
+  function rejectPending(reason: string) {
+    for (const id of Object.keys(requests)) {
+      requests[id].callback(new Error(`${reason}: ${rpcUrl}`));
+      delete requests[id];
+    }
+  }
+
+  const socket = provider.websocket as WebSocketProvider["websocket"] & { onclose: (() => void) | null };
+  socket.onerror = () => rejectPending("WebSocket error");
+  socket.onclose = () => rejectPending("WebSocket closed");
+
+  return provider;
+}
+
+export function isWebSocketOpen(provider: WebSocketProvider): boolean {
+  const { readyState } = provider.websocket;
+  return readyState === WebSocket.CONNECTING || readyState === WebSocket.OPEN;
+}